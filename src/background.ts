@@ -1,48 +1,65 @@
 import { GitHubService } from './github';
 import { DatabaseService } from './database';
+import { SettingsService } from './settings';
+import { RateLimitError, RateLimitTracker, withGitHubAuth } from './http';
+import { UpdateScheduler } from './scheduler';
+import { UpdateJobManager } from './jobs';
+import { supportsPinning } from './sources';
+import { DatabaseExport, ExtensionSettings, RateLimitState, UpdateProgress, UpdateResult } from './types';
+import {
+  BackgroundNotification,
+  BackgroundRequest,
+  MessageError,
+  MessageRequestError,
+  MessageResponse,
+  NotificationMap,
+  NotificationType,
+  parseRequest,
+  RequestType,
+  ResponseData
+} from './messages';
 
 // Background service worker для обновления данных
 class BackgroundService {
   private githubService: GitHubService;
   private dbService: DatabaseService;
-  private lastGitHubCheck: number = 0; // Время последней проверки GitHub в timestamp
-  private readonly GITHUB_CHECK_INTERVAL = 2 * 60 * 60 * 1000; // 2 часа в миллисекундах
+  private settingsService: SettingsService;
+  private rateLimitTracker: RateLimitTracker;
+  private scheduler: UpdateScheduler;
+  // Все обновления и импорты базы идут через очередь заданий
+  private updateJobs: UpdateJobManager;
+  // Подключенные popup и content scripts, которым транслируется прогресс обновления
+  private progressPorts: Set<chrome.runtime.Port> = new Set();
+  private currentProgress: UpdateProgress | null = null;
+  private static readonly PROGRESS_PORT = 'updateProgress';
 
   constructor() {
     this.githubService = new GitHubService();
     this.dbService = new DatabaseService();
+    this.settingsService = new SettingsService();
+    this.rateLimitTracker = new RateLimitTracker();
+    this.scheduler = new UpdateScheduler();
+    this.updateJobs = new UpdateJobManager(this.reportProgress);
   }
 
   async init(): Promise<void> {
     console.log('🔧 Background service worker started');
     
+    // Порт прогресса нужен уже для первой загрузки базы
+    this.setupProgressPorts();
+
     try {
       // Инициализируем базу данных
       console.log('📱 Initializing database service...');
       await this.dbService.init();
       console.log('✅ Database service initialized');
       
-      // Быстро проверяем локальную базу
-      console.log('🔍 Quick local database check...');
-      const localInfo = await this.dbService.getDatabaseInfo();
-      const cardsCount = await this.dbService.getCardsCount();
-      
-      if (localInfo && cardsCount > 0) {
-        console.log(`✅ Local database ready: ${cardsCount} cards (${localInfo.filename})`);
-        
-        // База есть, проверяем нужно ли обновление с GitHub
-        await this.checkGitHubIfNeeded();
-      } else {
-        console.log('📥 No local database, forcing GitHub check...');
-        // Нет локальной базы, принудительно проверяем GitHub
-        await this.forceGitHubCheck();
-      }
-      
       // Устанавливаем периодическую проверку обновлений
-      this.schedulePeriodicUpdates();
+      await this.schedulePeriodicUpdates();
       
-      // Слушаем сообщения от content script и popup
-      this.setupMessageHandlers();
+      // Стартовая проверка может загружать весь датасет - не ждем ее: сообщения обрабатываются сразу,
+      // а само обновление идет через очередь заданий, к нему можно присоединиться или отменить его
+      this.runStartupCheck().catch(error => console.error('❌ Startup update check failed:', error));
       
       console.log('✅ Background service fully initialized');
     } catch (error) {
@@ -50,32 +67,62 @@ class BackgroundService {
     }
   }
 
-  private schedulePeriodicUpdates(): void {
-    // Проверяем обновления каждые 2 часа
-    const UPDATE_INTERVAL = 2 * 60 * 60 * 1000; // 2 hours in milliseconds
+  private async runStartupCheck(): Promise<void> {
+    // Быстро проверяем локальную базу
+    console.log('🔍 Quick local database check...');
+    const localInfo = await this.dbService.getDatabaseInfo();
+    const cardsCount = await this.dbService.getCardsCount();
     
-    setInterval(async () => {
-      try {
-        console.log('⏰ Scheduled database update check');
-        await this.checkGitHubIfNeeded();
-      } catch (error) {
-        console.error('❌ Scheduled update failed:', error);
-      }
-    }, UPDATE_INTERVAL);
+    if (localInfo && cardsCount > 0) {
+      console.log(`✅ Local database ready: ${cardsCount} cards (${localInfo.filename})`);
+      
+      // База есть, проверяем нужно ли обновление с GitHub
+      await this.checkGitHubIfNeeded();
+    } else {
+      console.log('📥 No local database, forcing GitHub check...');
+      // Нет локальной базы, принудительно проверяем GitHub
+      await this.forceGitHubCheck();
+    }
   }
 
-  private async checkGitHubIfNeeded(): Promise<void> {
-    const now = Date.now();
-    
+  private async schedulePeriodicUpdates(): Promise<void> {
+    const { updateIntervalHours } = await this.settingsService.getSettings();
+    await this.scheduler.schedule(updateIntervalHours);
+  }
+
+  // Будильник регистрируется на верхнем уровне worker'а, сюда он приходит после init
+  async handleAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+    if (alarm.name !== UpdateScheduler.ALARM_NAME) {
+      return;
+    }
+
+    try {
+      console.log('⏰ Scheduled database update check');
+      await this.checkGitHubIfNeeded();
+    } catch (error) {
+      console.error('❌ Scheduled update failed:', error);
+    }
+  }
+
+  // force - проверить сразу, не дожидаясь интервала (например, после смены источника)
+  private async checkGitHubIfNeeded(force: boolean = false): Promise<void> {
+    const { updateIntervalHours } = await this.settingsService.getSettings();
+
     // Проверяем, прошло ли достаточно времени с последней проверки
-    if (now - this.lastGitHubCheck < this.GITHUB_CHECK_INTERVAL) {
-      const timeLeft = Math.round((this.GITHUB_CHECK_INTERVAL - (now - this.lastGitHubCheck)) / 1000 / 60);
-      console.log(`⏭️ GitHub check skipped, next check in ${timeLeft} minutes`);
+    if (!force && !(await this.scheduler.isDue(updateIntervalHours))) {
+      const state = await this.scheduler.getState();
+      console.log(`⏭️ GitHub check skipped, next check at ${state?.nextCheckAt ? new Date(state.nextCheckAt).toLocaleTimeString() : 'unknown'}`);
+      return;
+    }
+
+    // Лимит GitHub API исчерпан - не тратим проверку впустую, ждем сброса
+    const blockedUntil = await this.getRateLimitBlock();
+    if (blockedUntil) {
+      await this.deferCheckUntil(blockedUntil);
       return;
     }
 
     console.log('🔍 Time for GitHub check...');
-    this.lastGitHubCheck = now;
     
     try {
       const currentInfo = await this.dbService.getDatabaseInfo();
@@ -83,7 +130,7 @@ class BackgroundService {
 
       if (needsUpdate) {
         console.log('📥 Background update: Database outdated, updating...');
-        const result = await this.githubService.updateDatabase();
+        const result = await this.runUpdateJob();
         
         if (result.success) {
           console.log(`✅ Background update: Database updated with ${result.cardsCount} cards`);
@@ -91,25 +138,92 @@ class BackgroundService {
           // Уведомляем все активные tabs
           this.notifyTabs('databaseUpdated', {
             cardsCount: result.cardsCount,
+            changes: result.changes,
             message: `База данных обновлена: ${result.cardsCount} карт`
           });
+          await this.scheduler.recordCheck('updated');
         } else {
           console.error('❌ Background update failed:', result.error);
+          await this.scheduler.recordCheck('failed', result.error);
         }
       } else {
         console.log(`✅ GitHub check: Database is up to date`);
+        await this.scheduler.recordCheck('upToDate');
       }
     } catch (error) {
       console.error('❌ GitHub check failed:', error);
+      if (error instanceof RateLimitError) {
+        await this.deferCheckUntil(error.resetAt);
+      } else {
+        await this.scheduler.recordCheck('failed', error instanceof Error ? error.message : String(error));
+      }
     }
   }
 
+  /**
+   * Запрос к /rate_limit не расходует лимит и показывает, какой лимит действует с этим токеном.
+   */
+  private async testGitHubToken(token: string): Promise<{ authenticated: boolean; rateLimit: RateLimitState }> {
+    const url = 'https://api.github.com/rate_limit';
+    const response = await fetch(url, {
+      headers: withGitHubAuth(url, {
+        'Accept': 'application/vnd.github.v3+json',
+        'User-Agent': 'AnimestarsCards-Extension'
+      }, token)
+    });
+
+    if (response.status === 401) {
+      throw new Error('GitHub rejected the token (401 Bad credentials)');
+    }
+    if (!response.ok) {
+      throw new Error(`GitHub API error! status: ${response.status}`);
+    }
+
+    const core = (await response.json())?.resources?.core;
+    if (!core) {
+      throw new Error('Unexpected /rate_limit response');
+    }
+
+    const rateLimit: RateLimitState = {
+      limit: core.limit,
+      remaining: core.remaining,
+      resetAt: core.reset * 1000,
+      updatedAt: Date.now()
+    };
+
+    // Сохраняем состояние, только если проверялся действующий токен
+    if (token === await this.getGitHubToken()) {
+      await this.rateLimitTracker.update(response);
+    }
+
+    return { authenticated: !!token, rateLimit };
+  }
+
+  private async getGitHubToken(): Promise<string> {
+    return (await this.settingsService.getSettings()).githubToken;
+  }
+
+  private async getRateLimitBlock(): Promise<number | null> {
+    // Лимит относится только к GitHub API. Папка репозитория без него читается через jsDelivr,
+    // так что заранее откладывать проверку нужно только для релизов
+    const settings = await this.settingsService.getSettings();
+    return settings.dataSource.type === 'release' ? this.rateLimitTracker.getBlockedUntil() : null;
+  }
+
+  private async deferCheckUntil(resetAt: number): Promise<void> {
+    // Небольшой запас после сброса, чтобы не попасть на границу окна
+    const checkAt = resetAt + 5000;
+    console.log(`⏸️ GitHub rate limit exhausted, next check deferred until ${new Date(checkAt).toLocaleTimeString()}`);
+
+    const { updateIntervalHours } = await this.settingsService.getSettings();
+    await this.scheduler.deferUntil(checkAt, updateIntervalHours, `GitHub API rate limit exhausted until ${new Date(resetAt).toISOString()}`);
+  }
+
   private async forceGitHubCheck(): Promise<void> {
     console.log('🔄 Forcing GitHub check (no local database)...');
-    this.lastGitHubCheck = Date.now();
     
     try {
-      const result = await this.githubService.updateDatabase();
+      const result = await this.runUpdateJob();
       
       if (result.success) {
         console.log(`✅ Forced update: Database loaded with ${result.cardsCount} cards`);
@@ -117,13 +231,17 @@ class BackgroundService {
         // Уведомляем все активные tabs
         this.notifyTabs('databaseUpdated', {
           cardsCount: result.cardsCount,
+          changes: result.changes,
           message: `База данных загружена: ${result.cardsCount} карт`
         });
+        await this.scheduler.recordCheck('updated');
       } else {
         console.error('❌ Forced update failed:', result.error);
+        await this.scheduler.recordCheck('failed', result.error);
       }
     } catch (error) {
       console.error('❌ Forced GitHub check failed:', error);
+      await this.scheduler.recordCheck('failed', error instanceof Error ? error.message : String(error));
     }
   }
 
@@ -143,7 +261,7 @@ class BackgroundService {
       // Если нет данных в базе - обязательно обновляем
       if (!currentInfo || cardsCount === 0) {
         console.log('📥 Background update: No data in database, loading...');
-        const result = await this.githubService.updateDatabase();
+        const result = await this.runUpdateJob();
         
         if (result.success) {
           console.log(`✅ Background update: Database loaded with ${result.cardsCount} cards`);
@@ -151,6 +269,7 @@ class BackgroundService {
           // Уведомляем все активные tabs
           this.notifyTabs('databaseUpdated', {
             cardsCount: result.cardsCount,
+            changes: result.changes,
             message: `База данных загружена: ${result.cardsCount} карт`
           });
         } else {
@@ -164,7 +283,7 @@ class BackgroundService {
 
       if (needsUpdate) {
         console.log('📥 Background update: Database outdated, updating...');
-        const result = await this.githubService.updateDatabase();
+        const result = await this.runUpdateJob();
         
         if (result.success) {
           console.log(`✅ Background update: Database updated with ${result.cardsCount} cards`);
@@ -172,6 +291,7 @@ class BackgroundService {
           // Уведомляем все активные tabs
           this.notifyTabs('databaseUpdated', {
             cardsCount: result.cardsCount,
+            changes: result.changes,
             message: `База данных обновлена: ${result.cardsCount} карт`
           });
         } else {
@@ -185,280 +305,323 @@ class BackgroundService {
     }
   }
 
-  private setupMessageHandlers(): void {
-    chrome.runtime.onMessage.addListener((message: any, sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void) => {
-      this.handleMessage(message, sender, sendResponse);
-      return true; // Indicates we will send a response asynchronously
+  private setupProgressPorts(): void {
+    chrome.runtime.onConnect.addListener(port => {
+      if (port.name !== BackgroundService.PROGRESS_PORT) return;
+
+      this.progressPorts.add(port);
+      port.onDisconnect.addListener(() => this.progressPorts.delete(port));
+
+      // Подключившийся во время обновления сразу получает текущее состояние
+      if (this.currentProgress) {
+        const notification: BackgroundNotification = { type: 'updateProgress', data: this.currentProgress };
+        port.postMessage(notification);
+      }
     });
   }
 
-  private async handleMessage(message: any, sender: chrome.runtime.MessageSender, sendResponse: (response?: any) => void): Promise<void> {
+  private reportProgress = (progress: UpdateProgress): void => {
+    const started = !this.currentProgress;
+    const finished = progress.phase === 'done' || progress.phase === 'failed';
+    this.currentProgress = finished ? null : progress;
+
+    // Вкладки подключаются к порту только на время обновления
+    if (started && !finished) {
+      this.notifyTabs('updateStarted', progress);
+    }
+
+    for (const port of this.progressPorts) {
+      try {
+        const notification: BackgroundNotification = { type: 'updateProgress', data: progress };
+        port.postMessage(notification);
+      } catch (error) {
+        this.progressPorts.delete(port);
+      }
+    }
+  };
+
+  // Слушатель сообщений регистрируется на верхнем уровне worker'а, сюда сообщение приходит после init
+  async handleMessage(message: unknown, sender: chrome.runtime.MessageSender, sendResponse: (response: MessageResponse<unknown>) => void): Promise<void> {
     try {
-      console.log('📨 Background received message:', message.type, message.data);
-      
-      switch (message.type) {
-        case 'ping':
-          console.log('🏓 Ping received, service worker is alive');
-          sendResponse({ success: true });
-          break;
-
-        case 'getDatabasesList':
-          console.log('🔄 Get databases list requested');
-          try {
-            const response = await fetch(message.data.apiUrl, {
-              headers: {
-                'Accept': 'application/vnd.github.v3+json',
-                'User-Agent': 'AnimestarsCards-Extension'
-              }
-            });
-            
-            if (!response.ok) {
-              if (response.status === 404) {
-                console.log('Databases folder not found');
-                sendResponse({ success: true, data: [] });
-                break;
-              }
-              throw new Error(`GitHub API error! status: ${response.status}`);
-            }
-            
-            const files = await response.json();
-            
-            // Фильтруем только JSON файлы с нашим паттерном
-            const dbFiles = files.filter((file: any) => 
-              file.name.startsWith('animestars_') && 
-              file.name.endsWith('.json') &&
-              file.type === 'file'
-            );
-            
-            console.log(`✅ Found ${dbFiles.length} database files`);
-            sendResponse({ success: true, data: dbFiles });
-          } catch (error) {
-            console.error('❌ Get databases list failed:', error);
-            sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to get databases list' });
-          }
-          break;
+      const request = parseRequest(message);
+      console.log('📨 Background received message:', request.type, request.data);
+      sendResponse({ success: true, data: await this.dispatch(request) });
+    } catch (error) {
+      const messageError = BackgroundService.toMessageError(error);
+      console.error(`❌ Error handling message (${messageError.code}):`, messageError.message);
+      sendResponse({ success: false, error: messageError });
+    }
+  }
 
-        case 'downloadDatabase':
-          console.log('🔄 Download database requested');
-          try {
-            const response = await fetch(message.data.url, {
-              headers: {
-                'Accept': 'application/json',
-                'User-Agent': 'AnimestarsCards-Extension'
-              }
-            });
-            
-            if (!response.ok) {
-              throw new Error(`Database download error! status: ${response.status}`);
-            }
-            
-            const data = await response.json();
-            
-            // Проверяем формат данных
-            let cardsCount = 0;
-            if (Array.isArray(data)) {
-              // Старый формат - массив карт
-              cardsCount = data.length;
-            } else if (data && typeof data === 'object' && data.cards && Array.isArray(data.cards)) {
-              // Новый формат - объект с полем cards
-              cardsCount = data.cards.length;
-            }
-            
-            console.log(`✅ Database downloaded successfully: ${cardsCount} cards`);
-            sendResponse({ success: true, data: data }); // Возвращаем оригинальные данные
-          } catch (error) {
-            console.error('❌ Database download failed:', error);
-            sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to download database' });
-          }
-          break;
+  private async dispatch(request: BackgroundRequest): Promise<ResponseData<RequestType>> {
+    switch (request.type) {
+      case 'ping':
+        console.log('🏓 Ping received, service worker is alive');
+        return null;
 
-        case 'getRelease':
-          console.log('🔄 Get release info requested');
-          try {
-            const response = await fetch(message.data.apiUrl, {
-              headers: {
-                'Accept': 'application/vnd.github.v3+json',
-                'User-Agent': 'AnimestarsCards-Extension'
-              }
-            });
-            
-            if (!response.ok) {
-              throw new Error(`GitHub API error! status: ${response.status}`);
-            }
-            
-            const releaseData = await response.json();
-            console.log('✅ Release data fetched successfully');
-            sendResponse({ success: true, data: releaseData });
-          } catch (error) {
-            console.error('❌ Get release failed:', error);
-            sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to get release info' });
-          }
-          break;
+      case 'getDatabasesList': {
+        console.log('🔄 Get databases list requested');
+        const dbFiles = await this.githubService.getDatabasesList();
+        console.log(`✅ Found ${dbFiles.length} database files`);
+        return dbFiles;
+      }
 
-        case 'downloadData':
-          console.log('📥 Download data requested:', message.data?.url);
-          try {
-            // Пробуем несколько способов загрузки
-            let response;
-            let data;
-            
-            // Способ 1: прямой запрос
-            try {
-              console.log('🔄 Trying direct fetch...');
-              response = await fetch(message.data.url, {
-                headers: {
-                  'Accept': 'application/vnd.github.v3+json',
-                  'User-Agent': 'AnimestarsCards-Extension'
-                }
-              });
-              
-              if (response.ok) {
-                data = await response.json();
-                console.log('✅ Direct fetch successful');
-              } else {
-                console.log('❌ Direct fetch failed:', response.status, response.statusText);
-              }
-            } catch (fetchError) {
-              console.log('❌ Direct fetch error:', fetchError);
-            }
-            
-            // Способ 2: через GitHub API (если прямой не работает)
-            if (!data) {
-              console.log('🔄 Trying GitHub API...');
-              // Извлекаем информацию о релизе
-              const urlParts = message.data.url.match(/\/([^\/]+)\/([^\/]+)\/releases\/download\/([^\/]+)\/(.+)/);
-              if (urlParts) {
-                const [, owner, repo, tag, filename] = urlParts;
-                
-                // Получаем информацию о релизе
-                const releaseResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}/releases/tags/${tag}`, {
-                  headers: {
-                    'Accept': 'application/vnd.github.v3+json',
-                    'User-Agent': 'AnimestarsCards-Extension'
-                  }
-                });
-                
-                if (releaseResponse.ok) {
-                  const releaseData = await releaseResponse.json();
-                  const asset = releaseData.assets.find((a: any) => a.name === filename);
-                  
-                  if (asset) {
-                    // Пробуем скачать через API URL
-                    const assetResponse = await fetch(asset.url, {
-                      headers: {
-                        'Accept': 'application/octet-stream',
-                        'User-Agent': 'AnimestarsCards-Extension'
-                      }
-                    });
-                    
-                    if (assetResponse.ok) {
-                      data = await assetResponse.json();
-                      console.log('✅ GitHub API fetch successful');
-                    }
-                  }
-                }
-              }
-            }
-            
-            if (!data) {
-              throw new Error('All download methods failed');
-            }
-            
-            console.log('✅ Successfully downloaded', data.length, 'cards');
-            sendResponse({ success: true, data });
-          } catch (fetchError) {
-            console.error('❌ Download failed:', fetchError);
-            const errorMessage = fetchError instanceof Error ? fetchError.message : 'Download failed';
-            sendResponse({ success: false, error: errorMessage });
-          }
-          break;
+      case 'downloadDatabase': {
+        console.log('🔄 Download database requested');
+        const { url } = request.data;
+        const response = await fetch(url, {
+          headers: withGitHubAuth(url, {
+            'Accept': 'application/json',
+            'User-Agent': 'AnimestarsCards-Extension'
+          }, await this.getGitHubToken())
+        });
 
-        case 'forceUpdate':
-          console.log('🔄 Force update requested');
-          const result = await this.githubService.updateDatabase();
-          sendResponse(result);
-          break;
+        if (!response.ok) {
+          throw new Error(`Database download error! status: ${response.status}`);
+        }
 
-        case 'clearDatabase':
-          console.log('🗑️ Database clear requested');
-          try {
-            await this.dbService.deleteDatabase();
-            // Пересоздаем базу данных после удаления
-            await this.dbService.init();
-            console.log('✅ Database cleared and recreated successfully');
-            sendResponse({ success: true });
-          } catch (error) {
-            console.error('❌ Error clearing database:', error);
-            sendResponse({ 
-              success: false, 
-              error: error instanceof Error ? error.message : 'Unknown error' 
-            });
-          }
-          break;
-
-        case 'getDatabaseInfo':
-          const info = await this.dbService.getDatabaseInfo();
-          const cardsCount = await this.dbService.getCardsCount();
-          sendResponse({
-            version: info?.version || 'unknown',
-            timestamp: info?.timestamp,
-            totalCards: info?.totalCards || cardsCount,
-            filename: info?.filename,
-            downloadUrl: info?.downloadUrl,
-            cardsCount,
-            lastUpdate: info?.timestamp ? new Date(parseInt(info.timestamp) * 1000).toISOString() : undefined
-          });
-          break;
-
-        case 'getCardsCount':
-          const count = await this.dbService.getCardsCount();
-          sendResponse({ success: true, data: count });
-          break;
-
-        case 'getCardStats':
-          if (message.data && message.data.cardId) {
-            const stats = await this.dbService.getCardStats(message.data.cardId);
-            sendResponse({ success: true, data: stats });
-          } else {
-            sendResponse({ success: false, data: null });
-          }
-          break;
-
-        case 'checkUpdates':
-          const currentInfo = await this.dbService.getDatabaseInfo();
-          const needsUpdate = await this.githubService.checkForUpdates(currentInfo);
-          sendResponse({ needsUpdate });
-          break;
-
-        case 'findCardByImage':
-          console.log('🔍 Finding card by image URL:', message.data?.imageUrl);
-          if (message.data && message.data.imageUrl) {
-            try {
-              const cardId = await this.dbService.findCardByImageUrl(message.data.imageUrl);
-              console.log('✅ Found card ID by image:', cardId);
-              sendResponse({ success: true, cardId });
-            } catch (error) {
-              console.error('❌ Error finding card by image:', error);
-              sendResponse({ success: false, cardId: null });
-            }
-          } else {
-            console.warn('⚠️ Missing imageUrl in findCardByImage request');
-            sendResponse({ success: false, cardId: null });
-          }
-          break;
+        const data = await response.json();
+
+        // Проверяем формат данных
+        let cardsCount = 0;
+        if (Array.isArray(data)) {
+          // Старый формат - массив карт
+          cardsCount = data.length;
+        } else if (data && typeof data === 'object' && data.cards && Array.isArray(data.cards)) {
+          // Новый формат - объект с полем cards
+          cardsCount = data.cards.length;
+        }
 
-        default:
-          console.warn('⚠️ Unknown message type:', message.type);
-          sendResponse({ error: 'Unknown message type' });
+        console.log(`✅ Database downloaded successfully: ${cardsCount} cards`);
+        return data; // Возвращаем оригинальные данные
       }
-    } catch (error) {
-      console.error('❌ Error handling message:', error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      sendResponse({ error: errorMessage });
+
+      case 'forceUpdate': {
+        console.log('🔄 Force update requested');
+        return BackgroundService.unwrapUpdateResult(await this.runUpdateJob());
+      }
+
+      case 'listDatasetVersions':
+        console.log('🗂️ Dataset versions requested');
+        return this.githubService.listDatasetVersions();
+
+      case 'loadDatasetVersion': {
+        const { filename, pin } = request.data;
+        console.log('⏪ Dataset version load requested:', filename);
+        if (pin) {
+          BackgroundService.assertPinnable((await this.settingsService.getSettings()).dataSource);
+        }
+        const versionResult = BackgroundService.unwrapUpdateResult(await this.updateJobs.run(
+          'loadVersion',
+          filename,
+          (signal, onProgress) => this.githubService.loadDatasetVersion(filename, onProgress, signal)
+        ));
+
+        // Закрепляем только успешно загруженную версию - вместе с ревизией, а не только имя файла
+        if (pin) {
+          await this.settingsService.updateSettings({ pinnedVersion: versionResult.version || null });
+        }
+
+        this.notifyTabs('databaseUpdated', {
+          cardsCount: versionResult.cardsCount,
+          changes: versionResult.changes,
+          message: `Загружена версия базы ${filename}`
+        });
+        return versionResult;
+      }
+
+      case 'exportDatabase': {
+        console.log('📤 Database export requested');
+        const exportData: DatabaseExport = {
+          format: GitHubService.EXPORT_FORMAT,
+          formatVersion: 1,
+          exportedAt: new Date().toISOString(),
+          info: await this.dbService.getDatabaseInfo(),
+          cards: await this.dbService.getAllCards()
+        };
+        console.log(`✅ Exported ${exportData.cards.length} cards`);
+        return exportData;
+      }
+
+      case 'importDatabase': {
+        const { content, fileName } = request.data;
+        console.log('📥 Database import requested:', fileName);
+        const importResult = BackgroundService.unwrapUpdateResult(
+          await this.updateJobs.run(
+            'import',
+            fileName,
+            (signal, onProgress) => this.githubService.importFromFile(content, fileName || 'import.json', onProgress, signal)
+          )
+        );
+
+        this.notifyTabs('databaseUpdated', {
+          cardsCount: importResult.cardsCount,
+          changes: importResult.changes,
+          message: `База данных импортирована: ${importResult.cardsCount} карт`
+        });
+        return importResult;
+      }
+
+      case 'clearDatabase':
+        console.log('🗑️ Database clear requested');
+        // Через очередь: очистка не должна попасть между подготовкой и фиксацией импорта
+        BackgroundService.unwrapUpdateResult(await this.updateJobs.run('clear', undefined, async () => {
+          await this.dbService.deleteDatabase();
+          // Пересоздаем базу данных после удаления
+          await this.dbService.init();
+          return { success: true, cardsCount: 0 };
+        }));
+        console.log('✅ Database cleared and recreated successfully');
+        return null;
+
+      case 'getDatabaseInfo': {
+        const info = await this.dbService.getDatabaseInfo();
+        const cardsCount = await this.dbService.getCardsCount();
+        return {
+          version: info?.version || 'unknown',
+          timestamp: info?.timestamp,
+          totalCards: info?.totalCards || cardsCount,
+          filename: info?.filename,
+          downloadUrl: info?.downloadUrl,
+          integrity: info?.integrity,
+          mirror: info?.mirror,
+          releaseId: info?.releaseId || undefined,
+          source: (await this.githubService.getSource()).description,
+          rateLimit: await this.rateLimitTracker.getState(),
+          lastCheck: await this.scheduler.getState(),
+          cardsCount,
+          lastUpdate: info?.timestamp ? new Date(parseInt(info.timestamp) * 1000).toISOString() : undefined
+        };
+      }
+
+      case 'getCardsCount':
+        return this.dbService.getCardsCount();
+
+      case 'getCardStats':
+        return this.dbService.getCardStats(request.data.cardId);
+
+      case 'getCardStatsBatch':
+        return this.dbService.getCardStatsBatch(request.data.cardIds);
+
+      case 'checkUpdates': {
+        const currentInfo = await this.dbService.getDatabaseInfo();
+        return { needsUpdate: await this.githubService.checkForUpdates(currentInfo) };
+      }
+
+      case 'findCardByImage': {
+        console.log('🔍 Finding card by image URL:', request.data.imageUrl);
+        const cardId = await this.dbService.findCardByImageUrl(request.data.imageUrl);
+        console.log('✅ Found card ID by image:', cardId);
+        return cardId;
+      }
+
+      case 'findCardsByImages':
+        console.log(`🔍 Finding ${request.data.imageUrls.length} cards by image URLs`);
+        return this.dbService.findCardsByImageUrls(request.data.imageUrls);
+
+      case 'getCardHistory':
+        return this.dbService.getCardHistory(request.data.cardId);
+
+      case 'searchCards':
+        return this.dbService.searchCards(request.data.query, request.data.limit);
+
+      case 'queryCards':
+        return this.dbService.queryCards(request.data || {});
+
+      case 'getAnimeStats':
+        return this.dbService.getAnimeStats(request.data.animeId);
+
+      case 'listAnime':
+        return this.dbService.listAnime(request.data || {});
+
+      case 'getQuarantineReport':
+        return this.dbService.getQuarantineReport();
+
+      case 'getSettings':
+        return this.settingsService.getSettings();
+
+      case 'getUpdateJob':
+        return this.updateJobs.getState();
+
+      case 'cancelUpdate':
+        return { cancelled: this.updateJobs.cancel() };
+
+      case 'updateSettings': {
+        console.log('⚙️ Settings update requested');
+        const previous = await this.settingsService.getSettings();
+        const pinnedVersion = request.data.pinnedVersion !== undefined ? request.data.pinnedVersion : previous.pinnedVersion;
+        if (pinnedVersion) {
+          BackgroundService.assertPinnable(request.data.dataSource || previous.dataSource);
+        }
+        let settings: ExtensionSettings;
+        try {
+          settings = await this.settingsService.updateSettings(request.data);
+        } catch (error) {
+          // Настройки не прошли проверку - это ошибка запроса, а не background
+          throw new MessageRequestError('INVALID_MESSAGE', error instanceof Error ? error.message : 'Invalid settings');
+        }
+
+        // С другим токеном действует другой лимит - прежнее состояние больше не актуально
+        if (previous.githubToken !== settings.githubToken) {
+          await this.rateLimitTracker.reset();
+        }
+
+        // Новый источник или снятое закрепление - проверяем сразу, не дожидаясь планового интервала
+        if (
+          JSON.stringify(previous.dataSource) !== JSON.stringify(settings.dataSource) ||
+          previous.pinnedVersion !== settings.pinnedVersion
+        ) {
+          console.log('🔀 Data source or pinned version changed, checking for updates...');
+          // Не ждем проверку, но и не оставляем ее ошибку необработанной
+          this.checkGitHubIfNeeded(true).catch(error => console.error('❌ Update check after settings change failed:', error));
+        }
+
+        if (previous.updateIntervalHours !== settings.updateIntervalHours) {
+          await this.scheduler.schedule(settings.updateIntervalHours);
+        }
+
+        return settings;
+      }
+
+      case 'testGitHubToken': {
+        console.log('🔑 GitHub token test requested');
+        // Проверяем токен из формы, если он передан, иначе сохраненный
+        const token = request.data?.token !== undefined ? request.data.token.trim() : await this.getGitHubToken();
+        return this.testGitHubToken(token);
+      }
+    }
+  }
+
+  // Обновление до целевой версии; если оно уже идет, запрос присоединяется к нему
+  private runUpdateJob(): Promise<UpdateResult> {
+    return this.updateJobs.run('update', undefined, (signal, onProgress) => this.githubService.updateDatabase(onProgress, signal));
+  }
+
+  private static assertPinnable(dataSource: ExtensionSettings['dataSource']): void {
+    if (!supportsPinning(dataSource)) {
+      throw new MessageRequestError('INVALID_MESSAGE', `Data source "${dataSource.type}" does not keep previous versions and cannot be pinned`);
     }
   }
 
-  private async notifyTabs(type: string, data: any): Promise<void> {
+  // Неуспешный результат обновления или импорта - ошибка ответа с кодом причины
+  private static unwrapUpdateResult(result: UpdateResult): UpdateResult {
+    if (!result.success) {
+      throw new MessageRequestError(result.errorCode || 'UPDATE_FAILED', result.error || 'Update failed');
+    }
+    return result;
+  }
+
+  private static toMessageError(error: unknown): MessageError {
+    if (error instanceof MessageRequestError) {
+      return { code: error.code, message: error.message };
+    }
+    if (error instanceof RateLimitError) {
+      return { code: 'RATE_LIMITED', message: error.message };
+    }
+    return { code: 'INTERNAL', message: error instanceof Error ? error.message : 'Unknown error' };
+  }
+
+  private async notifyTabs<K extends NotificationType>(type: K, data: NotificationMap[K]): Promise<void> {
     try {
       const tabs = await chrome.tabs.query({});
       
@@ -491,7 +654,18 @@ class BackgroundService {
 
 // Инициализация background service
 const backgroundService = new BackgroundService();
-backgroundService.init().catch(console.error);
+const backgroundReady = backgroundService.init().catch(console.error);
+
+// Слушатели будильника и сообщений должны быть зарегистрированы синхронно при старте worker'а,
+// иначе событие, ради которого worker был запущен, будет потеряно
+chrome.alarms.onAlarm.addListener((alarm: chrome.alarms.Alarm) => {
+  backgroundReady.then(() => backgroundService.handleAlarm(alarm));
+});
+
+chrome.runtime.onMessage.addListener((message: unknown, sender: chrome.runtime.MessageSender, sendResponse: (response: MessageResponse<unknown>) => void) => {
+  backgroundReady.then(() => backgroundService.handleMessage(message, sender, sendResponse));
+  return true; // Indicates we will send a response asynchronously
+});
 
 // Обработка установки расширения
 chrome.runtime.onInstalled.addListener((details: chrome.runtime.InstalledDetails) => {
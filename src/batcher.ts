@@ -0,0 +1,53 @@
+/**
+ * Собирает одиночные запросы, пришедшие почти одновременно, в один пакетный вызов.
+ * Повторные запросы одного ключа внутри пакета объединяются.
+ */
+export class RequestBatcher<K, V> {
+  private queue: Map<K, Array<{ resolve: (value: V | null) => void; reject: (error: unknown) => void }>> = new Map();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly loadBatch: (keys: K[]) => Promise<Map<K, V | null>>,
+    private readonly delay = 10,
+    private readonly maxBatchSize = 200
+  ) {}
+
+  load(key: K): Promise<V | null> {
+    return new Promise((resolve, reject) => {
+      const waiters = this.queue.get(key);
+      if (waiters) {
+        waiters.push({ resolve, reject });
+      } else {
+        this.queue.set(key, [{ resolve, reject }]);
+      }
+
+      if (this.queue.size >= this.maxBatchSize) {
+        this.flush();
+      } else if (!this.flushTimer) {
+        this.flushTimer = setTimeout(() => this.flush(), this.delay);
+      }
+    });
+  }
+
+  private flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const batch = this.queue;
+    this.queue = new Map();
+    if (batch.size === 0) return;
+
+    this.loadBatch(Array.from(batch.keys()))
+      .then(results => {
+        batch.forEach((waiters, key) => {
+          const value = results.has(key) ? results.get(key)! : null;
+          waiters.forEach(waiter => waiter.resolve(value));
+        });
+      })
+      .catch(error => {
+        batch.forEach(waiters => waiters.forEach(waiter => waiter.reject(error)));
+      });
+  }
+}
@@ -0,0 +1,48 @@
+import { DatasetCompression } from './types';
+
+// Имена форматов DecompressionStream для поддерживаемых сжатых вариантов
+const STREAM_FORMATS: Record<DatasetCompression, string> = {
+  gzip: 'gzip',
+  brotli: 'brotli'
+};
+
+/**
+ * Форматы, которые умеет распаковывать текущий браузер, в порядке предпочтения.
+ * Brotli в DecompressionStream появился позже gzip, поэтому проверяем его явно.
+ */
+export function getSupportedCompressions(): DatasetCompression[] {
+  if (typeof DecompressionStream === 'undefined') {
+    return [];
+  }
+
+  return (['brotli', 'gzip'] as DatasetCompression[]).filter(compression => {
+    try {
+      new DecompressionStream(STREAM_FORMATS[compression] as CompressionFormat);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+// Значения Content-Encoding, с которыми браузер распаковывает тело ответа сам
+const CONTENT_ENCODINGS: Record<DatasetCompression, string> = {
+  gzip: 'gzip',
+  brotli: 'br'
+};
+
+/**
+ * Сервер мог отдать сжатый файл с Content-Encoding - тогда fetch уже распаковал тело.
+ * У gzip это видно по отсутствию сигнатуры, у brotli сигнатуры нет - смотрим на заголовок.
+ */
+export function isDecodedInTransit(bytes: Uint8Array, compression: DatasetCompression, contentEncoding: string | null): boolean {
+  if (compression === 'gzip') {
+    return !(bytes[0] === 0x1f && bytes[1] === 0x8b);
+  }
+  return contentEncoding?.trim().toLowerCase() === CONTENT_ENCODINGS[compression];
+}
+
+export async function decompressBytes(bytes: Uint8Array, compression: DatasetCompression): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream(STREAM_FORMATS[compression] as CompressionFormat));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
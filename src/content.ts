@@ -1,5 +1,7 @@
 import { GitHubService } from './github';
-import { CardElement, CardSelector } from './types';
+import { RequestBatcher } from './batcher';
+import { isBackgroundNotification, sendRequest } from './messages';
+import { CardElement, CardSelector, CardStats, UpdateProgress } from './types';
 import './content.css';
 
 class CardStatsOverlay {
@@ -20,8 +22,16 @@ class CardStatsOverlay {
 
   // Кэширование для ускорения
   private cardIdCache: Map<string, number> = new Map(); // URL -> cardId
-  private statsCache: Map<number, any> = new Map(); // cardId -> stats
+  private statsCache: Map<number, CardStats> = new Map(); // cardId -> stats
   private processingIds: Set<string> = new Set(); // Защита от дублирования remelt карт
+
+  // Пакетные запросы к background вместо сообщения на каждую карту
+  private statsBatcher: RequestBatcher<number, CardStats>;
+  private imageBatcher: RequestBatcher<string, number>;
+  
+  // Прогресс обновления базы (порт открыт только пока идет обновление)
+  private progressPort: chrome.runtime.Port | null = null;
+  private progressNotification: HTMLElement | null = null;
   
   // Navigation debug properties
   private lastNavigationStart: number = 0;
@@ -105,6 +115,8 @@ class CardStatsOverlay {
 
   constructor() {
     this.githubService = new GitHubService();
+    this.statsBatcher = new RequestBatcher(cardIds => this.loadCardStatsBatch(cardIds));
+    this.imageBatcher = new RequestBatcher(imageUrls => this.loadCardIdsByImages(imageUrls));
     this.startCleanupTimer();
     this.setupUserActivityTracking();
   }
@@ -225,10 +237,9 @@ class CardStatsOverlay {
         }
 
         // Проверяем доступность background script с попыткой активации
-        let pingResponse;
         try {
           // Первая попытка - простой ping
-          pingResponse = await chrome.runtime.sendMessage({ type: 'ping' });
+          await sendRequest('ping');
         } catch (error) {
           console.log('🔄 Background script inactive, attempting to wake up...');
           
@@ -237,25 +248,20 @@ class CardStatsOverlay {
           
           // Повторная попытка
           try {
-            pingResponse = await chrome.runtime.sendMessage({ type: 'ping' });
+            await sendRequest('ping');
           } catch (secondError) {
             console.log('🔄 Second attempt to wake background script...');
             
             // Еще одна попытка с большей задержкой
             await new Promise(resolve => setTimeout(resolve, 500));
-            pingResponse = await chrome.runtime.sendMessage({ type: 'ping' });
+            await sendRequest('ping');
           }
         }
         
-        if (!pingResponse?.success) {
-          throw new Error('Background script not ready');
-        }
-        
         console.log('✅ Using background database service');
 
         // Проверяем, есть ли данные в базе через background
-        const cardsResponse = await chrome.runtime.sendMessage({ type: 'getCardsCount' });
-        const cardsCount = cardsResponse.success ? cardsResponse.data : 0;
+        const cardsCount = await sendRequest('getCardsCount');
         
         if (cardsCount === 0) {
           console.log('📥 No data yet, background is loading. Extension will work when data is ready.');
@@ -329,7 +335,7 @@ class CardStatsOverlay {
       return;
     }
 
-    // Обрабатываем все видимые карты параллельно для максимальной скорости
+    // Обрабатываем все видимые карты параллельно: запросы к background собираются в пакеты
     await Promise.all(
       cards.map(async (cardElement) => {
         // Повторно проверяем активность для каждой карты
@@ -385,9 +391,21 @@ class CardStatsOverlay {
   }
 
   private setupMessageListener(): void {
-    chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    chrome.runtime.onMessage.addListener((message: unknown) => {
+      if (!isBackgroundNotification(message)) return;
+
+      if (message.type === 'updateStarted') {
+        this.connectProgressPort();
+      }
+
       if (message.type === 'databaseUpdated') {
-        console.log(`🔄 Database updated: ${message.data.cardsCount} cards`);
+        const changes = message.data.changes;
+        console.log(`🔄 Database updated: ${message.data.cardsCount} cards`, changes ? `(+${changes.added} ~${changes.changed} -${changes.removed})` : '');
+        
+        // Сбрасываем кэш статистики только если данные карт действительно изменились
+        if (!changes || changes.added > 0 || changes.changed > 0 || changes.removed > 0) {
+          this.statsCache.clear();
+        }
         
         // Очищаем флаги обработки для пересоздания статистики
         this.clearAllProcessedFlags();
@@ -400,6 +418,83 @@ class CardStatsOverlay {
     });
   }
 
+  private connectProgressPort(): void {
+    if (this.progressPort) return;
+
+    try {
+      this.progressPort = chrome.runtime.connect({ name: 'updateProgress' });
+    } catch (error) {
+      console.warn('⚠️ Could not connect to update progress:', error);
+      return;
+    }
+
+    this.progressPort.onMessage.addListener((message: unknown) => {
+      if (!isBackgroundNotification(message) || message.type !== 'updateProgress') return;
+
+      const progress: UpdateProgress = message.data;
+      if (progress.phase === 'done' || progress.phase === 'failed') {
+        this.disconnectProgressPort();
+        return;
+      }
+      this.showProgressNotification(progress);
+    });
+
+    this.progressPort.onDisconnect.addListener(() => {
+      this.progressPort = null;
+      this.removeProgressNotification();
+    });
+  }
+
+  private disconnectProgressPort(): void {
+    this.progressPort?.disconnect();
+    this.progressPort = null;
+    this.removeProgressNotification();
+  }
+
+  private showProgressNotification(progress: UpdateProgress): void {
+    if (!this.progressNotification) {
+      this.progressNotification = document.createElement('div');
+      this.progressNotification.className = 'animestars-notification animestars-notification--progress';
+      this.progressNotification.style.cssText = `
+        position: fixed;
+        top: 20px;
+        right: 20px;
+        background: #2196F3;
+        color: white;
+        padding: 12px 16px;
+        border-radius: 4px;
+        z-index: 10000;
+        font-family: system-ui, -apple-system, sans-serif;
+        font-size: 14px;
+        box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+        max-width: 300px;
+      `;
+      document.body.appendChild(this.progressNotification);
+    }
+
+    this.progressNotification.textContent = `База карт: ${CardStatsOverlay.formatProgress(progress)}`;
+  }
+
+  private removeProgressNotification(): void {
+    this.progressNotification?.remove();
+    this.progressNotification = null;
+  }
+
+  private static formatProgress(progress: UpdateProgress): string {
+    switch (progress.phase) {
+      case 'downloading':
+        return progress.total
+          ? `загрузка ${Math.min(100, Math.round(progress.loaded / progress.total * 100))}%…`
+          : `загрузка ${(progress.loaded / 1024 / 1024).toFixed(1)} МБ…`;
+      case 'saving':
+        return `сохранение ${progress.loaded}/${progress.total}…`;
+      case 'committing':
+        return 'применение изменений…';
+      default:
+        return '';
+    }
+  }
+
   private setupNavigationTriggers(): void {
     console.log(`🎯 Checking URL for navigation triggers: ${window.location.pathname}`);
     
@@ -1110,16 +1205,13 @@ class CardStatsOverlay {
         return this.cardIdCache.get(normalizedUrl)!;
       }
       
-      // Запрашиваем поиск карты по изображению через background script
-      const response = await chrome.runtime.sendMessage({
-        type: 'findCardByImage',
-        data: { imageUrl: normalizedUrl }
-      });
+      // Запрашиваем поиск карты по изображению через background script (пакетом вместе с соседними картами)
+      const cardId = await this.imageBatcher.load(normalizedUrl);
       
-      if (response.success && response.cardId) {
+      if (cardId) {
         // Кэшируем результат
-        this.cardIdCache.set(normalizedUrl, response.cardId);
-        return response.cardId;
+        this.cardIdCache.set(normalizedUrl, cardId);
+        return cardId;
       }
       
       // Карта не найдена по изображению
@@ -1130,6 +1222,17 @@ class CardStatsOverlay {
     }
   }
 
+  private async loadCardIdsByImages(imageUrls: string[]): Promise<Map<string, number | null>> {
+    const found = await sendRequest('findCardsByImages', { imageUrls });
+    return new Map(imageUrls.map(url => [url, found[url] ?? null]));
+  }
+
+  private async loadCardStatsBatch(cardIds: number[]): Promise<Map<number, CardStats | null>> {
+    console.log(`📦 Requesting stats for ${cardIds.length} cards in one batch`);
+    const stats = await sendRequest('getCardStatsBatch', { cardIds });
+    return new Map(cardIds.map(cardId => [cardId, stats[cardId] ?? null]));
+  }
+
   private extractCardName(element: HTMLElement, selector: CardSelector): string | undefined {
     if (selector.dataNameAttribute) {
       // Для anime-cards__item-wrapper ищем data-name в дочернем элементе
@@ -1211,23 +1314,17 @@ class CardStatsOverlay {
       // Устанавливаем флаг обработки перед запросом
       card.element.setAttribute('data-animestars-processed', 'true');
 
-      let stats;
+      let stats: CardStats | null | undefined = this.statsCache.get(card.cardId);
       
       // Проверяем кэш статистики
-      if (this.statsCache.has(card.cardId)) {
-        stats = this.statsCache.get(card.cardId);
-      } else {
-        // Запрашиваем статистику карты через background script
-        const response = await chrome.runtime.sendMessage({
-          type: 'getCardStats',
-          data: { cardId: card.cardId }
-        });
+      if (!stats) {
+        // Запрашиваем статистику карты через background script (пакетом вместе с соседними картами)
+        stats = await this.statsBatcher.load(card.cardId);
         
-        if (!response.success || !response.data) {
+        if (!stats) {
           return;
         }
         
-        stats = response.data;
         // Кэшируем статистику
         this.statsCache.set(card.cardId, stats);
       }
@@ -1249,7 +1346,7 @@ class CardStatsOverlay {
     }
   }
 
-  private createStatsOverlay(stats: { users: number; need: number; trade: number }, cardId: number, cardElement: HTMLElement, cardName?: string): HTMLElement {
+  private createStatsOverlay(stats: CardStats, cardId: number, cardElement: HTMLElement, cardName?: string): HTMLElement {
     const overlay = document.createElement('div');
     overlay.className = 'card-stats-overlay';
     
@@ -1259,7 +1356,7 @@ class CardStatsOverlay {
     // Создаем элементы статистики
     const usersSpan = document.createElement('span');
     usersSpan.innerHTML = `<i class="fas fa-users"></i> ${stats.users || 0}`;
-    usersSpan.title = 'Владельцев';
+    usersSpan.title = 'Владельцев' + this.formatPercentileHint(stats, 'users');
     usersSpan.setAttribute('data-card-id', cardId.toString());
     usersSpan.style.cursor = 'pointer';
     usersSpan.addEventListener('click', (e) => {
@@ -1270,7 +1367,7 @@ class CardStatsOverlay {
     
     const needSpan = document.createElement('span');
     needSpan.innerHTML = `<i class="fas fa-heart"></i> ${stats.need || 0}`;
-    needSpan.title = 'Хотят получить';
+    needSpan.title = 'Хотят получить' + this.formatPercentileHint(stats, 'need');
     needSpan.setAttribute('data-card-id', cardId.toString());
     needSpan.style.cursor = 'pointer';
     needSpan.addEventListener('click', (e) => {
@@ -1281,7 +1378,7 @@ class CardStatsOverlay {
     
     const tradeSpan = document.createElement('span');
     tradeSpan.innerHTML = `<i class="fas fa-sync-alt"></i> ${stats.trade || 0}`;
-    tradeSpan.title = 'Готовы обменять';
+    tradeSpan.title = 'Готовы обменять' + this.formatPercentileHint(stats, 'trade');
     tradeSpan.setAttribute('data-card-id', cardId.toString());
     tradeSpan.style.cursor = 'pointer';
     tradeSpan.addEventListener('click', (e) => {
@@ -1320,6 +1417,19 @@ class CardStatsOverlay {
     return overlay;
   }
 
+  /**
+   * Подсказка вида " • топ 5% среди ранга A" по перцентилю карты внутри ее ранга.
+   */
+  private formatPercentileHint(stats: CardStats, field: 'users' | 'need' | 'trade'): string {
+    const percentile = stats.percentiles?.[field];
+    if (percentile === undefined || !stats.cardRank) {
+      return '';
+    }
+
+    const top = Math.max(1, Math.round(100 - percentile));
+    return ` • топ ${top}% среди ранга ${stats.cardRank}`;
+  }
+
   private setLayoutForStats(overlay: HTMLElement): void {
     const statsContainer = overlay.querySelector('.card-stats') as HTMLElement;
     if (!statsContainer) return;
@@ -1,10 +1,39 @@
-import { CardData, DatabaseInfo } from './types';
+import {
+  AnimeListQuery,
+  AnimeListResult,
+  AnimeStats,
+  CardData,
+  CardHistoryEntry,
+  CardQuery,
+  CardQueryResult,
+  CardSearchResult,
+  CardStats,
+  CardStatField,
+  DatabaseInfo,
+  ImportStats,
+  NumericRange,
+  QuarantineReport,
+  StatTotals,
+  StoredCard
+} from './types';
+import { LATEST_VERSION, runMigrations, STORES } from './migrations';
+import { computeAnimeStats, computeRankPercentiles } from './stats';
 
 export class DatabaseService {
   private static readonly DB_NAME = 'AnimestarsCardsDB';
-  private static readonly DB_VERSION = 2; // Увеличиваем версию для создания нового индекса
-  private static readonly CARDS_STORE = 'cards';
-  private static readonly INFO_STORE = 'info';
+  private static readonly DB_VERSION = LATEST_VERSION; // Схема описана шагами в migrations.ts
+  private static readonly CARDS_STORE = STORES.cards;
+  private static readonly STAGING_STORE = STORES.staging;
+  private static readonly HISTORY_STORE = STORES.history;
+  private static readonly ANIME_STORE = STORES.anime;
+  private static readonly INFO_STORE = STORES.info;
+  // Минимальная доля карт относительно текущей базы, при которой импорт считается корректным
+  private static readonly MIN_STAGED_RATIO = 0.5;
+  private static readonly PROGRESS_STEP = 1000; // Как часто сообщать о прогрессе сохранения (карт)
+  private static readonly DEFAULT_SEARCH_LIMIT = 20;
+  private static readonly MAX_SEARCH_LIMIT = 100;
+  private static readonly DEFAULT_QUERY_LIMIT = 50;
+  private static readonly MAX_QUERY_LIMIT = 500;
 
   private db: IDBDatabase | null = null;
 
@@ -14,7 +43,17 @@ export class DatabaseService {
 
       request.onerror = () => reject(request.error);
       request.onsuccess = () => {
-        this.db = request.result;
+        const db = request.result;
+        // Удаление или обновление схемы из другого соединения не должно ждать этого:
+        // закрываем его, следующий запрос переоткроет базу
+        db.onversionchange = () => {
+          console.log('🔌 Database version change requested, closing connection');
+          db.close();
+          if (this.db === db) {
+            this.db = null;
+          }
+        };
+        this.db = db;
         resolve();
       };
 
@@ -22,108 +61,589 @@ export class DatabaseService {
         const db = (event.target as IDBOpenDBRequest).result;
         const transaction = (event.target as IDBOpenDBRequest).transaction!;
 
-        // Создаем хранилище карт
-        if (!db.objectStoreNames.contains(DatabaseService.CARDS_STORE)) {
-          const cardsStore = db.createObjectStore(DatabaseService.CARDS_STORE, { keyPath: 'cardId' });
-          cardsStore.createIndex('cardName', 'cardName', { unique: false });
-          cardsStore.createIndex('animeId', 'animeId', { unique: false });
-          cardsStore.createIndex('cardImage', 'cardImage', { unique: false }); // Индекс для быстрого поиска по URL изображения
-        } else {
-          // Обновляем существующее хранилище, если нужно добавить новые индексы
-          const cardsStore = transaction.objectStore(DatabaseService.CARDS_STORE);
-          
-          // Добавляем индекс для cardImage, если его еще нет (версия 2)
-          if (!cardsStore.indexNames.contains('cardImage')) {
-            cardsStore.createIndex('cardImage', 'cardImage', { unique: false });
-          }
-        }
-
-        // Создаем хранилище информации о базе
-        if (!db.objectStoreNames.contains(DatabaseService.INFO_STORE)) {
-          db.createObjectStore(DatabaseService.INFO_STORE, { keyPath: 'key' });
-        }
+        console.log(`🛠️ Upgrading database from v${event.oldVersion} to v${event.newVersion}`);
+        runMigrations({ db, transaction }, event.oldVersion, DatabaseService.toStoredCards);
       };
     });
   }
 
-  async saveCards(cards: CardData[]): Promise<void> {
+  /**
+   * Записывает входящие карты в промежуточное хранилище. Рабочее хранилище cards не затрагивается,
+   * поэтому прерванная загрузка не оставляет пользователя без данных.
+   */
+  async stageCards(cards: CardData[], onProgress?: (saved: number, total: number) => void): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    console.log(`Starting to save ${cards.length} cards to IndexedDB`);
-
-    // Очищаем старые данные
-    await this.clearCards();
-    console.log('Old cards cleared from IndexedDB');
+    console.log(`📦 Staging ${cards.length} cards...`);
 
-    // Создаем новую транзакцию для сохранения данных
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([DatabaseService.CARDS_STORE], 'readwrite');
-      const store = transaction.objectStore(DatabaseService.CARDS_STORE);
-      
-      let completed = 0;
-      let hasError = false;
+      const transaction = this.db!.transaction([DatabaseService.STAGING_STORE], 'readwrite');
+      const store = transaction.objectStore(DatabaseService.STAGING_STORE);
 
       transaction.oncomplete = () => {
-        if (!hasError) {
-          console.log(`✅ Saved ${completed}/${cards.length} cards to IndexedDB`);
-          resolve();
-        }
+        console.log(`✅ Staged ${cards.length} cards`);
+        resolve();
       };
 
       transaction.onerror = () => {
-        hasError = true;
-        console.error('Transaction error:', transaction.error);
+        console.error('Staging transaction error:', transaction.error);
         reject(transaction.error);
       };
 
-      // Добавляем карты пакетами для избежания блокировки
+      transaction.onabort = () => {
+        reject(transaction.error || new Error('Staging aborted'));
+      };
+
+      let saved = 0;
+
+      store.clear();
       for (const card of cards) {
-        const request = store.put(card); // Используем put вместо add для замены существующих записей
-        
+        const request = store.put(card);
+
         request.onsuccess = () => {
-          completed++;
-          if (completed % 50 === 0) {
-            console.log(`Progress: ${completed}/${cards.length} cards saved`);
+          saved++;
+          if (saved % DatabaseService.PROGRESS_STEP === 0 || saved === cards.length) {
+            onProgress?.(saved, cards.length);
           }
         };
-        
-        request.onerror = () => {
-          hasError = true;
-          console.error(`Error saving card ${card.cardId}:`, request.error);
-          reject(request.error);
-        };
       }
     });
   }
 
-  async getCardStats(cardId: number): Promise<{ users: number; need: number; trade: number } | null> {
+  /**
+   * Проверяет подготовленные данные и атомарно переносит их в рабочее хранилище
+   * вместе с информацией о базе. При провале проверки текущие данные остаются нетронутыми.
+   * Статистика каждой карты попадает в историю, записи старше historyRetentionDays удаляются.
+   */
+  async commitStagedCards(info: DatabaseInfo, historyRetentionDays: number): Promise<ImportStats> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const stagedCount = await this.countStore(DatabaseService.STAGING_STORE);
+    const currentInfo = await this.getDatabaseInfo();
+    const previousTotal = currentInfo?.totalCards || 0;
+
+    if (stagedCount === 0) {
+      throw new Error('Sanity check failed: staged dataset is empty');
+    }
+
+    if (previousTotal > 0 && stagedCount < previousTotal * DatabaseService.MIN_STAGED_RATIO) {
+      throw new Error(`Sanity check failed: staged dataset has ${stagedCount} cards, current has ${previousTotal}`);
+    }
+
+    console.log(`🔁 Committing ${stagedCount} staged cards (previous: ${previousTotal})`);
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(
+        [
+          DatabaseService.CARDS_STORE,
+          DatabaseService.STAGING_STORE,
+          DatabaseService.INFO_STORE,
+          DatabaseService.HISTORY_STORE,
+          DatabaseService.ANIME_STORE
+        ],
+        'readwrite'
+      );
+      const stagingStore = transaction.objectStore(DatabaseService.STAGING_STORE);
+      const stats: ImportStats = { added: 0, changed: 0, removed: 0, unchanged: 0 };
+
+      transaction.oncomplete = () => {
+        console.log(`✅ Staged dataset committed: +${stats.added} ~${stats.changed} -${stats.removed} (${stats.unchanged} unchanged)`);
+        resolve(stats);
+      };
+
+      transaction.onerror = () => {
+        console.error('Commit transaction error:', transaction.error);
+        reject(transaction.error);
+      };
+
+      transaction.onabort = () => {
+        reject(transaction.error || new Error('Commit aborted'));
+      };
+
+      const stagedRequest = stagingStore.getAll();
+
+      stagedRequest.onsuccess = () => {
+        const staged = stagedRequest.result as CardData[];
+
+        this.applyCardsDiff(transaction.objectStore(DatabaseService.CARDS_STORE), staged, stats, () => {
+          transaction.objectStore(DatabaseService.INFO_STORE).put({ key: 'info', ...info });
+          stagingStore.clear();
+        });
+
+        const historyStore = transaction.objectStore(DatabaseService.HISTORY_STORE);
+        this.recordHistory(historyStore, staged, info);
+        this.pruneHistory(historyStore, historyRetentionDays);
+
+        // Агрегаты по аниме пересчитываются целиком по новому набору карт
+        const animeStore = transaction.objectStore(DatabaseService.ANIME_STORE);
+        animeStore.clear();
+        for (const anime of computeAnimeStats(staged)) {
+          animeStore.put(anime);
+        }
+      };
+    });
+  }
+
+  async discardStagedCards(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([DatabaseService.STAGING_STORE], 'readwrite');
+      const request = transaction.objectStore(DatabaseService.STAGING_STORE).clear();
+
+      request.onsuccess = () => {
+        console.log('🗑️ Staged cards discarded');
+        resolve();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getAnimeStats(animeId: number): Promise<AnimeStats | null> {
+    if (!this.db) {
+      console.log('🔄 Database not initialized, auto-initializing...');
+      await this.init();
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([DatabaseService.ANIME_STORE], 'readonly');
+      const request = transaction.objectStore(DatabaseService.ANIME_STORE).get(animeId);
+
+      request.onsuccess = () => resolve((request.result as AnimeStats) || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async listAnime(query: AnimeListQuery = {}): Promise<AnimeListResult> {
+    if (!this.db) {
+      console.log('🔄 Database not initialized, auto-initializing...');
+      await this.init();
+    }
+
+    const offset = Math.max(0, Math.floor(query.offset || 0));
+    const limit = Math.min(Math.max(1, Math.floor(query.limit || DatabaseService.DEFAULT_QUERY_LIMIT)), DatabaseService.MAX_QUERY_LIMIT);
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([DatabaseService.ANIME_STORE], 'readonly');
+      const request = transaction.objectStore(DatabaseService.ANIME_STORE).getAll();
+
+      request.onsuccess = () => {
+        const items = request.result as AnimeStats[];
+        const sortBy = query.sortBy || 'cardCount';
+        const direction = query.sortOrder === 'asc' ? 1 : -1;
+
+        items.sort((a, b) => {
+          let order: number;
+          if (sortBy === 'animeName') {
+            order = a.animeName.localeCompare(b.animeName);
+          } else if (sortBy === 'cardCount') {
+            order = a.cardCount - b.cardCount;
+          } else {
+            order = a.totals[sortBy] - b.totals[sortBy];
+          }
+          return (order || a.animeId - b.animeId) * direction;
+        });
+
+        resolve({ items: items.slice(offset, offset + limit), total: items.length, offset, limit });
+      };
+
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getCardHistory(cardId: number): Promise<CardHistoryEntry[]> {
     if (!this.db) {
       console.log('🔄 Database not initialized, auto-initializing...');
       await this.init();
     }
 
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([DatabaseService.HISTORY_STORE], 'readonly');
+      const store = transaction.objectStore(DatabaseService.HISTORY_STORE);
+      // Ключ [cardId, timestamp] - записи карты уже отсортированы по времени
+      const request = store.getAll(IDBKeyRange.bound([cardId, -Infinity], [cardId, Infinity]));
+
+      request.onsuccess = () => resolve(request.result as CardHistoryEntry[]);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private recordHistory(store: IDBObjectStore, cards: CardData[], info: DatabaseInfo): void {
+    const timestamp = parseInt(info.timestamp, 10);
+    if (!Number.isFinite(timestamp)) {
+      console.warn('⚠️ Dataset timestamp is not numeric, history not recorded:', info.timestamp);
+      return;
+    }
+
+    for (const card of cards) {
+      const entry: CardHistoryEntry = {
+        cardId: card.cardId,
+        timestamp,
+        filename: info.filename,
+        users: card.users,
+        need: card.need,
+        trade: card.trade
+      };
+      store.put(entry);
+    }
+  }
+
+  private pruneHistory(store: IDBObjectStore, retentionDays: number): void {
+    const cutoff = Math.floor(Date.now() / 1000) - retentionDays * 24 * 60 * 60;
+    const cursorRequest = store.index('timestamp').openCursor(IDBKeyRange.upperBound(cutoff, true));
+    let pruned = 0;
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        cursor.delete();
+        pruned++;
+        cursor.continue();
+      } else if (pruned > 0) {
+        console.log(`🧹 Pruned ${pruned} history entries older than ${retentionDays} days`);
+      }
+    };
+  }
+
+  private applyCardsDiff(store: IDBObjectStore, cards: CardData[], stats: ImportStats, onDone?: () => void): void {
+    const incoming = new Map<number, StoredCard>();
+    for (const card of DatabaseService.toStoredCards(cards)) {
+      incoming.set(card.cardId, card);
+    }
+
+    // Проходим по сохраненным картам и сравниваем с входящими
+    const cursorRequest = store.openCursor();
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+
+      if (cursor) {
+        const stored = cursor.value as StoredCard;
+        const next = incoming.get(stored.cardId);
+
+        if (!next) {
+          cursor.delete();
+          stats.removed++;
+        } else {
+          if (DatabaseService.isSameCard(stored, next)) {
+            stats.unchanged++;
+            // Перцентили зависят от всего ранга и сдвигаются от чужих изменений - обновляем их,
+            // но карту изменившейся не считаем
+            if (!DatabaseService.valuesEqual(stored, next)) {
+              cursor.update(next);
+            }
+          } else {
+            cursor.update(next);
+            stats.changed++;
+          }
+          incoming.delete(stored.cardId);
+        }
+
+        cursor.continue();
+      } else {
+        // Все, что осталось во входящих - новые карты
+        for (const card of incoming.values()) {
+          store.put(card);
+          stats.added++;
+        }
+        onDone?.();
+      }
+    };
+  }
+
+  private async countStore(storeName: string): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], 'readonly');
+      const request = transaction.objectStore(storeName).count();
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Сравниваются только данные датасета; вычисляемые поля изменением карты не считаются
+  private static isSameCard(a: StoredCard, b: StoredCard): boolean {
+    return DatabaseService.valuesEqual(DatabaseService.toCardData(a), DatabaseService.toCardData(b));
+  }
+
+  private static valuesEqual(left: unknown, right: unknown): boolean {
+    if (left === right) return true;
+    if (!left || !right || typeof left !== 'object' || typeof right !== 'object') return false;
+    if (Array.isArray(left) !== Array.isArray(right)) return false;
+
+    const leftRecord = left as Record<string, unknown>;
+    const rightRecord = right as Record<string, unknown>;
+    const keys = new Set([...Object.keys(leftRecord), ...Object.keys(rightRecord)]);
+    for (const key of keys) {
+      if (!DatabaseService.valuesEqual(leftRecord[key], rightRecord[key])) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Дополняет карты вычисляемыми полями: перцентилями по рангу (зависят от всего набора)
+   * и полями, по которым построены индексы.
+   */
+  private static toStoredCards(cards: CardData[]): StoredCard[] {
+    const percentiles = computeRankPercentiles(cards);
+    return cards.map(card => DatabaseService.toStoredCard(card, percentiles.get(card.cardId)!));
+  }
+
+  private static toStoredCard(card: CardData, percentiles: StatTotals): StoredCard {
+    const imageKey = DatabaseService.normalizeImagePath(card.cardImage || '');
+    return {
+      ...DatabaseService.toCardData(card as StoredCard),
+      percentiles,
+      searchTokens: DatabaseService.tokenize(`${card.cardName || ''} ${card.animeName || ''}`),
+      imageKey,
+      imageFileName: imageKey.split('/').pop() || ''
+    };
+  }
+
+  private static toCardData(stored: StoredCard): CardData {
+    const { percentiles, searchTokens, imageKey, imageFileName, ...card } = stored;
+    return card;
+  }
+
+  /**
+   * Приводит URL изображения к пути без протокола, домена, ведущих слешей, параметров и якоря.
+   */
+  private static normalizeImagePath(url: string): string {
+    return url
+      .replace(/^https?:\/\/[^\/]+/, '')
+      .replace(/^\/+/, '')
+      .split('?')[0]
+      .split('#')[0];
+  }
+
+  private static normalizeSearchText(text: string): string {
+    return text.toLowerCase().replace(/ё/g, 'е');
+  }
+
+  private static tokenize(text: string): string[] {
+    const tokens = DatabaseService.normalizeSearchText(text)
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(token => token.length > 0);
+    return Array.from(new Set(tokens));
+  }
+
+  /**
+   * Поиск карт по названию карты и аниме (регистр не важен, кириллица и латиница).
+   * Каждое слово запроса должно совпадать с началом какого-либо слова карты.
+   */
+  async searchCards(query: string, limit: number = DatabaseService.DEFAULT_SEARCH_LIMIT): Promise<CardSearchResult[]> {
+    if (!this.db) {
+      console.log('🔄 Database not initialized, auto-initializing...');
+      await this.init();
+    }
+
+    const queryTokens = DatabaseService.tokenize(query);
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    const maxResults = Math.min(Math.max(1, Math.floor(limit) || DatabaseService.DEFAULT_SEARCH_LIMIT), DatabaseService.MAX_SEARCH_LIMIT);
+    // Самое длинное слово обычно самое избирательное - по нему выбираем кандидатов из индекса
+    const seedToken = queryTokens.reduce((longest, token) => token.length > longest.length ? token : longest);
+    const normalizedQuery = queryTokens.join(' ');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([DatabaseService.CARDS_STORE], 'readonly');
+      const index = transaction.objectStore(DatabaseService.CARDS_STORE).index('searchTokens');
+      const request = index.getAll(IDBKeyRange.bound(seedToken, seedToken + '\uffff'));
+
+      request.onsuccess = () => {
+        const seen = new Set<number>();
+        const results: CardSearchResult[] = [];
+
+        for (const stored of request.result as StoredCard[]) {
+          if (seen.has(stored.cardId)) continue;
+          seen.add(stored.cardId);
+
+          const score = DatabaseService.scoreSearchMatch(stored, queryTokens, normalizedQuery);
+          if (score > 0) {
+            results.push({ card: DatabaseService.toCardData(stored), score });
+          }
+        }
+
+        results.sort((a, b) => b.score - a.score || a.card.cardName.localeCompare(b.card.cardName));
+        resolve(results.slice(0, maxResults));
+      };
+
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Выборка карт по фильтрам (ранг, аниме, автор, диапазоны статистики) с сортировкой и пагинацией.
+   */
+  async queryCards(query: CardQuery = {}): Promise<CardQueryResult> {
+    if (!this.db) {
+      console.log('🔄 Database not initialized, auto-initializing...');
+      await this.init();
+    }
+
+    const offset = Math.max(0, Math.floor(query.offset || 0));
+    const limit = Math.min(Math.max(1, Math.floor(query.limit || DatabaseService.DEFAULT_QUERY_LIMIT)), DatabaseService.MAX_QUERY_LIMIT);
+    const ranks = query.cardRank === undefined ? null : new Set(Array.isArray(query.cardRank) ? query.cardRank : [query.cardRank]);
+    const author = query.cardAuthor?.toLowerCase();
+    const statFields: CardStatField[] = ['users', 'need', 'trade'];
+
+    const matches = (card: StoredCard): boolean => {
+      if (ranks && !ranks.has(card.cardRank)) return false;
+      if (query.animeId !== undefined && card.animeId !== query.animeId) return false;
+      if (author !== undefined && (card.cardAuthor || '').toLowerCase() !== author) return false;
+      return statFields.every(field => DatabaseService.inRange(card[field], query[field]));
+    };
+
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([DatabaseService.CARDS_STORE], 'readonly');
       const store = transaction.objectStore(DatabaseService.CARDS_STORE);
-      const request = store.get(cardId);
+      // Если задано аниме - используем индекс, иначе читаем все карты
+      const request = query.animeId !== undefined
+        ? store.index('animeId').getAll(query.animeId)
+        : store.getAll();
 
       request.onsuccess = () => {
-        const card = request.result as CardData;
-        if (card) {
-          resolve({
-            users: card.users,
-            need: card.need,
-            trade: card.trade
+        const filtered = (request.result as StoredCard[]).filter(matches);
+
+        if (query.sortBy) {
+          const field = query.sortBy;
+          const direction = query.sortOrder === 'desc' ? -1 : 1;
+          filtered.sort((a, b) => {
+            const left = a[field];
+            const right = b[field];
+            const order = typeof left === 'string' && typeof right === 'string'
+              ? left.localeCompare(right)
+              : (left as number) - (right as number);
+            return (order || a.cardId - b.cardId) * direction;
           });
-        } else {
-          resolve(null);
         }
+
+        resolve({
+          items: filtered.slice(offset, offset + limit).map(DatabaseService.toCardData),
+          total: filtered.length,
+          offset,
+          limit
+        });
       };
 
       request.onerror = () => reject(request.error);
     });
   }
 
+  private static inRange(value: number, range?: NumericRange): boolean {
+    if (!range) return true;
+    if (range.min !== undefined && value < range.min) return false;
+    if (range.max !== undefined && value > range.max) return false;
+    return true;
+  }
+
+  private static scoreSearchMatch(card: StoredCard, queryTokens: string[], normalizedQuery: string): number {
+    const nameTokens = DatabaseService.tokenize(card.cardName || '');
+    const animeTokens = DatabaseService.tokenize(card.animeName || '');
+    let score = 0;
+
+    for (const token of queryTokens) {
+      if (nameTokens.includes(token)) {
+        score += 10;
+      } else if (nameTokens.some(nameToken => nameToken.startsWith(token))) {
+        score += 6;
+      } else if (animeTokens.includes(token)) {
+        score += 4;
+      } else if (animeTokens.some(animeToken => animeToken.startsWith(token))) {
+        score += 2;
+      } else {
+        return 0; // Слово запроса не найдено - карта не подходит
+      }
+    }
+
+    // Бонус за совпадение всего названия или его начала
+    const normalizedName = nameTokens.join(' ');
+    if (normalizedName === normalizedQuery) {
+      score += 100;
+    } else if (normalizedName.startsWith(normalizedQuery)) {
+      score += 50;
+    }
+
+    return score;
+  }
+
+  async getCardStats(cardId: number): Promise<CardStats | null> {
+    if (!this.db) {
+      console.log('🔄 Database not initialized, auto-initializing...');
+      await this.init();
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([DatabaseService.CARDS_STORE], 'readonly');
+      const store = transaction.objectStore(DatabaseService.CARDS_STORE);
+      const request = store.get(cardId);
+
+      request.onsuccess = () => {
+        const card = request.result as StoredCard;
+        resolve(card ? DatabaseService.toCardStats(card) : null);
+      };
+
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Статистика сразу для нескольких карт в одной транзакции.
+   */
+  async getCardStatsBatch(cardIds: number[]): Promise<Record<number, CardStats | null>> {
+    if (!this.db) {
+      console.log('🔄 Database not initialized, auto-initializing...');
+      await this.init();
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([DatabaseService.CARDS_STORE], 'readonly');
+      const store = transaction.objectStore(DatabaseService.CARDS_STORE);
+      const result: Record<number, CardStats | null> = {};
+
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Card stats lookup aborted'));
+
+      for (const cardId of new Set(cardIds)) {
+        const request = store.get(cardId);
+        request.onsuccess = () => {
+          const card = request.result as StoredCard;
+          result[cardId] = card ? DatabaseService.toCardStats(card) : null;
+        };
+      }
+    });
+  }
+
+  private static toCardStats(card: StoredCard): CardStats {
+    return {
+      users: card.users,
+      need: card.need,
+      trade: card.trade,
+      cardRank: card.cardRank,
+      percentiles: card.percentiles
+    };
+  }
+
+  async getAllCards(): Promise<CardData[]> {
+    if (!this.db) {
+      console.log('🔄 Database not initialized, auto-initializing...');
+      await this.init();
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([DatabaseService.CARDS_STORE], 'readonly');
+      const request = transaction.objectStore(DatabaseService.CARDS_STORE).getAll();
+
+      request.onsuccess = () => resolve((request.result as StoredCard[]).map(DatabaseService.toCardData));
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   async clearCards(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -222,6 +742,50 @@ export class DatabaseService {
     });
   }
 
+  async saveQuarantineReport(report: QuarantineReport): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([DatabaseService.INFO_STORE], 'readwrite');
+      const request = transaction.objectStore(DatabaseService.INFO_STORE).put({ key: 'quarantine', ...report });
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getQuarantineReport(): Promise<QuarantineReport | null> {
+    if (!this.db) {
+      console.log('🔄 Database not initialized, auto-initializing...');
+      await this.init();
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([DatabaseService.INFO_STORE], 'readonly');
+      const request = transaction.objectStore(DatabaseService.INFO_STORE).get('quarantine');
+
+      request.onsuccess = () => {
+        const result = request.result;
+        if (result) {
+          const { key, ...report } = result;
+          resolve(report as QuarantineReport);
+        } else {
+          resolve(null);
+        }
+      };
+
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Закрывает соединение. Временные сервисы должны закрывать его, иначе удаление базы блокируется.
+   */
+  close(): void {
+    this.db?.close();
+    this.db = null;
+  }
+
   async deleteDatabase(): Promise<void> {
     console.log('🗑️ Starting database deletion process...');
     
@@ -319,105 +883,76 @@ export class DatabaseService {
       await this.init();
     }
 
-    // Улучшенная нормализация URL
-    const normalizeUrl = (url: string): string => {
-      // Убираем протокол и домен
-      let normalized = url.replace(/^https?:\/\/[^\/]+/, '');
-      // Убираем или добавляем ведущий слеш для единообразия
-      normalized = normalized.replace(/^\/+/, '');
-      // Убираем параметры и якори
-      normalized = normalized.split('?')[0].split('#')[0];
-      return normalized;
-    };
-
-    const normalizedSearchUrl = normalizeUrl(imageUrl);
-    console.log('🔍 Searching for card by URL:', normalizedSearchUrl);
+    console.log('🔍 Searching for card by URL:', imageUrl);
 
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([DatabaseService.CARDS_STORE], 'readonly');
       const store = transaction.objectStore(DatabaseService.CARDS_STORE);
-      const imageIndex = store.index('cardImage');
-
-      // 1. Попробуем точный поиск по индексу с нормализованным URL
-      const exactRequest = imageIndex.get(normalizedSearchUrl);
-      
-      exactRequest.onsuccess = () => {
-        if (exactRequest.result) {
-          resolve(exactRequest.result.cardId);
-          return;
-        }
-        
-        // 2. Попробуем поиск с ведущим слешем
-        const withSlashRequest = imageIndex.get('/' + normalizedSearchUrl);
-        
-        withSlashRequest.onsuccess = () => {
-          if (withSlashRequest.result) {
-            resolve(withSlashRequest.result.cardId);
-            return;
-          }
-          
-          // 3. Fallback - используем курсор для частичного поиска только если точный поиск не дал результатов
-          const cursorRequest = imageIndex.openCursor();
-          
-          cursorRequest.onsuccess = () => {
-            const cursor = cursorRequest.result;
-            
-            if (cursor) {
-              const card = cursor.value as CardData;
-              const normalizedCardImage = normalizeUrl(card.cardImage);
-              
-              // Проверяем частичное совпадение
-              if (normalizedCardImage.includes(normalizedSearchUrl) || 
-                  normalizedSearchUrl.includes(normalizedCardImage)) {
-                resolve(card.cardId);
-                return;
-              }
-              
-              cursor.continue();
-            } else {
-              // 4. Последний шанс - поиск по имени файла
-              this.findCardByFileName(normalizedSearchUrl, resolve);
-            }
-          };
-          
-          cursorRequest.onerror = () => reject(cursorRequest.error);
-        };
-        
-        withSlashRequest.onerror = () => reject(withSlashRequest.error);
-      };
-      
-      exactRequest.onerror = () => reject(exactRequest.error);
+      this.lookupCardByImage(store, imageUrl, resolve, reject);
     });
   }
 
-  private findCardByFileName(searchUrl: string, resolve: (value: number | null) => void): void {
-    const searchFileName = searchUrl.split('/').pop();
-    if (!searchFileName) {
-      resolve(null);
-      return;
+  /**
+   * Поиск карт сразу для нескольких изображений в одной транзакции.
+   */
+  async findCardsByImageUrls(imageUrls: string[]): Promise<Record<string, number | null>> {
+    if (!this.db) {
+      console.log('🔄 Database not initialized, auto-initializing...');
+      await this.init();
     }
 
-    const transaction = this.db!.transaction([DatabaseService.CARDS_STORE], 'readonly');
-    const store = transaction.objectStore(DatabaseService.CARDS_STORE);
-    const imageIndex = store.index('cardImage');
-    const cursorRequest = imageIndex.openCursor();
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([DatabaseService.CARDS_STORE], 'readonly');
+      const store = transaction.objectStore(DatabaseService.CARDS_STORE);
+      const result: Record<string, number | null> = {};
+
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error || new Error('Card image lookup aborted'));
+
+      for (const imageUrl of new Set(imageUrls)) {
+        this.lookupCardByImage(store, imageUrl, cardId => {
+          result[imageUrl] = cardId;
+        }, () => {
+          result[imageUrl] = null;
+        });
+      }
+    });
+  }
+
+  private lookupCardByImage(
+    store: IDBObjectStore,
+    imageUrl: string,
+    resolve: (cardId: number | null) => void,
+    reject: (error: unknown) => void
+  ): void {
+    const imageKey = DatabaseService.normalizeImagePath(imageUrl);
+    const fileName = imageKey.split('/').pop() || '';
+
+    // 1. Точный поиск по нормализованному пути
+    const keyRequest = store.index('imageKey').getKey(imageKey);
+
+    keyRequest.onsuccess = () => {
+      if (keyRequest.result !== undefined) {
+        resolve(keyRequest.result as number);
+        return;
+      }
 
-    cursorRequest.onsuccess = () => {
-      const cursor = cursorRequest.result;
-      
-      if (cursor) {
-        const card = cursor.value as CardData;
-        const cardFileName = card.cardImage.split('/').pop();
-        
-        if (cardFileName && cardFileName === searchFileName) {
-          resolve(card.cardId);
-          return;
-        }
-        
-        cursor.continue();
-      } else {
+      if (!fileName) {
         resolve(null);
+        return;
       }
+
+      // 2. Поиск по имени файла (если путь на сайте отличается от пути в датасете)
+      const fileNameRequest = store.index('imageFileName').getKey(fileName);
+
+      fileNameRequest.onsuccess = () => {
+        resolve(fileNameRequest.result !== undefined ? fileNameRequest.result as number : null);
+      };
+
+      fileNameRequest.onerror = () => reject(fileNameRequest.error);
     };
+
+    keyRequest.onerror = () => reject(keyRequest.error);
   }
 }
@@ -1,17 +1,57 @@
-import { GitHubRelease, DatabaseInfo, CardData } from './types';
+import { DatabaseInfo, CardData, ImportStats, DatasetPayload, DatasetFile, DatasetDownload, UpdateResult, UpdateErrorCode, ProgressCallback } from './types';
+import { SettingsService } from './settings';
+import { validateCards } from './validation';
+import {
+  attachChecksumFiles,
+  createDatasetSource,
+  DatasetSource,
+  getPatchFileName,
+  isChecksumFileName,
+  isPatchFileName,
+  selectPreferredVariants
+} from './sources';
+import { applyPatch, parsePatch } from './patches';
+import type { DatabaseService } from './database';
+import { IntegrityError, verifyDatasetBytes } from './integrity';
+import { decompressBytes, getSupportedCompressions, isDecodedInTransit } from './compression';
+import { IdleTimeout, RateLimitError, withGitHubAuth } from './http';
+import { MirrorCandidate, MirrorService } from './mirrors';
+import { sendRequest } from './messages';
+
+// Запрошенный датасет (закрепленная или выбранная версия) отсутствует в источнике
+export class DatasetNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatasetNotFoundError';
+  }
+}
+
+// Обновление отменено пользователем
+export class UpdateCancelledError extends Error {
+  constructor() {
+    super('Update cancelled');
+    this.name = 'UpdateCancelledError';
+  }
+}
+
+interface DownloadOptions {
+  etag?: string;
+  // Отмена загрузки
+  signal?: AbortSignal;
+  // Таймаут бездействия: нет ответа или новых данных дольше timeoutMs - запрос прерывается
+  timeoutMs?: number;
+  // Запись листинга: размер, хеши и сжатие загружаемого файла
+  file?: DatasetFile;
+  onProgress?: ProgressCallback;
+}
 
 export class GitHubService {
-  private static readonly REPO_OWNER = 'hantYT';
-  private static readonly REPO_NAME = 'animestars_cards_datasets';
-  private static readonly API_BASE = 'https://api.github.com';
-  private static readonly DATABASES_PATH = 'databases';
+  static readonly EXPORT_FORMAT = 'animestars-cards-export';
+  private static readonly MIRROR_TIMEOUT = 20000;
+  private mirrorService = new MirrorService();
 
-  async getDatabasesList(): Promise<any[]> {
-    const apiUrl = `${GitHubService.API_BASE}/repos/${GitHubService.REPO_OWNER}/${GitHubService.REPO_NAME}/contents/${GitHubService.DATABASES_PATH}`;
-    
+  async getDatabasesList(): Promise<DatasetFile[]> {
     try {
-      console.log('Getting databases list from:', apiUrl);
-      
       // Проверяем контекст выполнения
       const isContentScript = typeof window !== 'undefined' && window.location;
       const hasChrome = typeof chrome !== 'undefined' && chrome.runtime;
@@ -19,49 +59,58 @@ export class GitHubService {
       // Если в content script, отправляем сообщение background script'у
       if (isContentScript && hasChrome) {
         console.log('Getting databases list via background script...');
-        const response = await this.sendMessageToBackground('getDatabasesList', { apiUrl });
-        
-        if (response?.success) {
-          return response.data;
-        } else {
-          throw new Error(response?.error || 'Failed to get databases list via background');
-        }
-      }
-
-      // Прямой запрос (для background script)
-      const response = await fetch(apiUrl, {
-        headers: {
-          'Accept': 'application/vnd.github.v3+json',
-          'User-Agent': 'AnimestarsCards-Extension'
-        }
-      });
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          console.log('Databases folder not found');
-          return [];
-        }
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        return await sendRequest('getDatabasesList');
       }
 
-      const files = await response.json();
-      
-      // Фильтруем только JSON файлы с нашим паттерном (поддерживаем оба формата)
-      const dbFiles = files.filter((file: any) => 
-        (file.name.startsWith('animestars_') || file.name.startsWith('animestars_cards_')) && 
-        file.name.endsWith('.json') &&
-        file.type === 'file'
-      );
+      // Прямой запрос к настроенному источнику (для background script).
+      // Какие файлы считать датасетами, решает источник - здесь убираем только патчи и контрольные суммы
+      const dbFiles = (await this.listAvailableFiles())
+        .filter(file => !isPatchFileName(file.name) && !isChecksumFileName(file.name));
       
       console.log(`Found ${dbFiles.length} database files`);
       return dbFiles;
     } catch (error) {
+      // Исчерпанный лимит не маскируем пустым списком - иначе он выглядит как «обновлений нет»
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
       console.error('Error fetching databases list:', error);
       return [];
     }
   }
 
-  async getLatestDatabase(): Promise<any | null> {
+  /**
+   * Источник датасетов из настроек. Читается при каждом обращении,
+   * чтобы смена источника в popup применялась без перезапуска.
+   */
+  async getSource(): Promise<DatasetSource> {
+    const settings = await new SettingsService().getSettings();
+    return createDatasetSource(settings.dataSource, settings.githubToken || undefined);
+  }
+
+  /**
+   * Листинг источника: контрольные суммы привязаны к файлам, из сжатых вариантов выбран предпочтительный.
+   */
+  private async listAvailableFiles(): Promise<DatasetFile[]> {
+    const source = await this.getSource();
+    const files = attachChecksumFiles(await source.listDatasets());
+    console.log(`Listed ${files.length} files in ${source.description}`);
+
+    // Сжатые варианты предпочтительнее, если браузер умеет их распаковывать
+    return selectPreferredVariants(files, getSupportedCompressions());
+  }
+
+  async getPatchFile(fromDataset: string, toDataset: string): Promise<DatasetFile | null> {
+    const patchName = getPatchFileName(fromDataset, toDataset);
+    if (!patchName) {
+      return null;
+    }
+
+    const files = await this.listAvailableFiles();
+    return files.find(file => file.name === patchName) || null;
+  }
+
+  async getLatestDatabase(): Promise<DatasetFile | null> {
     try {
       const databases = await this.getDatabasesList();
       
@@ -78,12 +127,18 @@ export class GitHubService {
       
       return latestDb;
     } catch (error) {
+      if (error instanceof RateLimitError) {
+        throw error;
+      }
       console.error('Error getting latest database:', error);
       return null;
     }
   }
 
-  async downloadDatabaseData(downloadUrl: string): Promise<{ metadata: any; cards: CardData[] } | null> {
+  async downloadDatabaseData(downloadUrl: string, options: DownloadOptions = {}): Promise<DatasetDownload | null> {
+    const { etag, file, onProgress, timeoutMs, signal } = options;
+    const timeout = timeoutMs ? new IdleTimeout(timeoutMs, signal) : null;
+
     try {
       console.log('Downloading database data from:', downloadUrl);
       
@@ -97,15 +152,9 @@ export class GitHubService {
       if (isContentScript && hasChrome) {
         try {
           console.log('Attempting download via background script...');
-          const response = await this.sendMessageToBackground('downloadDatabase', { url: downloadUrl });
-          console.log('Background response:', response);
-          
-          if (response && response.success) {
-            console.log(`Downloaded database with ${response.data.cards?.length || 0} cards via background`);
-            return response.data;
-          } else {
-            throw new Error(response?.error || 'Background download failed');
-          }
+          const data: any = await sendRequest('downloadDatabase', { url: downloadUrl });
+          console.log(`Downloaded database with ${data?.cards?.length || 0} cards via background`);
+          return { data };
         } catch (bgError) {
           console.warn('Background download failed:', bgError);
           throw bgError;
@@ -114,12 +163,43 @@ export class GitHubService {
       
       // Прямой fetch (для background script)
       console.log('Attempting direct fetch in background context...');
-      const response = await fetch(downloadUrl);
+      const settings = await new SettingsService().getSettings();
+      const response = await fetch(downloadUrl, {
+        headers: withGitHubAuth(downloadUrl, etag ? { 'If-None-Match': etag } : {}, settings.githubToken),
+        signal: timeout?.signal || signal
+      });
+
+      // Файл совпадает с уже импортированным
+      if (response.status === 304) {
+        console.log('♻️ Database file not modified since last download');
+        return { data: null, etag, notModified: true };
+      }
+
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const data = await response.json();
+      // Читаем тело потоком, чтобы показывать прогресс загрузки
+      let bytes = await this.readResponseBody(response, file?.size, onProgress, () => timeout?.touch());
+      timeout?.clear();
+
+      // Размер и хеш в листинге относятся к сжатому файлу - уже распакованное тело с ними не сравнить
+      const decoded = file?.compression ? isDecodedInTransit(bytes, file.compression, response.headers.get('content-encoding')) : false;
+      if (decoded) {
+        console.log(`ℹ️ ${file!.compression} dataset was decoded in transit, skipping size and hash check`);
+      }
+
+      // Сверяем файл с листингом до распаковки и до любой записи в базу
+      const integrity = file && !decoded ? await verifyDatasetBytes(bytes, file, settings.githubToken) : null;
+      if (integrity) {
+        console.log(`🔐 Dataset verified (${integrity.algorithm} ${integrity.hash})`);
+      }
+
+      if (file?.compression && !decoded) {
+        bytes = await decompressBytes(bytes, file.compression);
+        console.log(`🗜️ Decompressed ${file.compression} dataset: ${bytes.length} bytes`);
+      }
+      const data = JSON.parse(new TextDecoder().decode(bytes));
       
       // Проверяем формат данных
       let cards = [];
@@ -141,17 +221,33 @@ export class GitHubService {
       
       console.log(`Downloaded database with ${cardsCount} cards`);
       
-      return data; // Возвращаем оригинальные данные
+      // Возвращаем оригинальные данные
+      return { data, etag: response.headers.get('etag') || undefined, integrity: integrity || undefined };
     } catch (error) {
+      // Поврежденный файл - это не сетевой сбой, причину отдаем наверх
+      if (error instanceof IntegrityError) {
+        throw error;
+      }
+      // Отмена - не ошибка зеркала, перебирать остальные не нужно
+      if (signal?.aborted) {
+        throw new UpdateCancelledError();
+      }
       console.error('Error downloading database data:', error);
       return null;
+    } finally {
+      timeout?.clear();
     }
   }
 
-  parseDatabaseInfo(dbFile: any, metadata: any): DatabaseInfo {
-    // Извлекаем timestamp из метаданных или имени файла
-    let timestamp = metadata?.timestamp;
+  parseDatabaseInfo(dbFile: DatasetFile, metadata: any): DatabaseInfo {
+    // У ассета релиза свежесть определяется датой публикации релиза, а не метаданными файла
+    let timestamp = dbFile.release ? Math.floor(new Date(dbFile.release.publishedAt).getTime() / 1000) || undefined : undefined;
     let version = metadata?.version || '1.0';
+
+    // Иначе берем timestamp из метаданных или имени файла
+    if (!timestamp) {
+      timestamp = metadata?.timestamp;
+    }
     
     if (!timestamp) {
       // Пытаемся извлечь дату из имени файла: animestars_20250913_210218.json
@@ -173,17 +269,53 @@ export class GitHubService {
     }
 
     return {
-      releaseId: 0, // Не используется в новом формате
-      version: `db_${dbFile.name}`,
+      releaseId: dbFile.release?.id || 0,
+      // Ревизия есть только у источников, где имя файла не меняется между версиями
+      version: dbFile.revision ? `db_${dbFile.name}@${dbFile.revision}` : `db_${dbFile.name}`,
       timestamp: timestamp.toString(),
       totalCards: metadata?.total_cards || 0,
       filename: dbFile.name,
-      downloadUrl: dbFile.download_url
+      downloadUrl: dbFile.downloadUrl
     };
   }
 
+  /**
+   * Все доступные версии датасета, новые первыми. Дата берется из имени файла или даты публикации релиза.
+   */
+  async listDatasetVersions(): Promise<DatabaseInfo[]> {
+    const databases = await this.getDatabasesList();
+
+    return databases
+      .map(dbFile => this.parseDatabaseInfo(dbFile, null))
+      .sort((a, b) => Number(b.timestamp) - Number(a.timestamp) || (b.filename || '').localeCompare(a.filename || ''));
+  }
+
+  /**
+   * Версия, к которой должна прийти база: закрепленная в настройках или самая новая.
+   */
+  async getTargetDatabase(): Promise<DatasetFile | null> {
+    const { pinnedVersion } = await new SettingsService().getSettings();
+    if (!pinnedVersion) {
+      return this.getLatestDatabase();
+    }
+
+    // Сравниваем полную версию: у файла с тем же именем может быть другая ревизия.
+    // Закрепления из старых версий расширения хранят только имя файла
+    const databases = await this.getDatabasesList();
+    const pinnedDb = databases.find(dbFile =>
+      this.parseDatabaseInfo(dbFile, null).version === pinnedVersion || (!dbFile.revision && dbFile.name === pinnedVersion)
+    );
+    if (!pinnedDb) {
+      throw new DatasetNotFoundError(`Pinned dataset ${pinnedVersion} is no longer available`);
+    }
+
+    console.log(`📌 Dataset pinned to ${pinnedVersion}`);
+    return pinnedDb;
+  }
+
   async checkForUpdates(currentInfo: DatabaseInfo | null): Promise<boolean> {
-    const latestDb = await this.getLatestDatabase();
+    // При закрепленной версии новые датасеты не устанавливаются автоматически
+    const latestDb = await this.getTargetDatabase();
     
     if (!latestDb) {
       console.warn('Could not fetch latest database info');
@@ -196,78 +328,404 @@ export class GitHubService {
       return true;
     }
 
-    // Сравниваем имена файлов (содержат дату/время)
-    const latestFilename = latestDb.name;
-    const currentFilename = currentInfo.filename;
+    // Сравниваем имена файлов (содержат дату/время), а для прямой ссылки - еще и ревизию
+    const latestVersion = this.parseDatabaseInfo(latestDb, null).version;
+    const currentVersion = currentInfo.version;
 
-    console.log(`Current database: ${currentFilename}, Latest database: ${latestFilename}`);
+    console.log(`Current database: ${currentVersion}, Latest database: ${latestVersion}`);
     
-    return latestFilename !== currentFilename;
+    return latestVersion !== currentVersion;
+  }
+
+  async updateDatabase(onProgress?: ProgressCallback, signal?: AbortSignal): Promise<UpdateResult> {
+    const result = await this.runUpdate(() => this.getTargetDatabase(), onProgress, signal);
+    this.reportFinished(result, onProgress);
+    return result;
   }
 
-  async updateDatabase(): Promise<{ success: boolean; cardsCount?: number; error?: string }> {
+  /**
+   * Загружает конкретную версию датасета (например, для отката на предыдущую).
+   */
+  async loadDatasetVersion(filename: string, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<UpdateResult> {
+    const result = await this.runUpdate(async () => {
+      const databases = await this.getDatabasesList();
+      const dbFile = databases.find(candidate => candidate.name === filename);
+      if (!dbFile) {
+        throw new DatasetNotFoundError(`Dataset ${filename} not found`);
+      }
+      return dbFile;
+    }, onProgress, signal);
+    this.reportFinished(result, onProgress);
+    return result;
+  }
+
+  private async runUpdate(
+    selectDatabase: () => Promise<DatasetFile | null>,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<UpdateResult> {
     try {
-      const latestDb = await this.getLatestDatabase();
+      const latestDb = await selectDatabase();
       if (!latestDb) {
         return { success: false, error: 'Could not fetch latest database' };
       }
 
-      // Загружаем данные
-      const databaseData = await this.downloadDatabaseData(latestDb.download_url);
-      if (!databaseData) {
-        return { success: false, error: 'Failed to download database data' };
-      }
+      return await this.withDatabase(async dbService => {
+        // Если есть патч от установленной версии к нужной - обходимся без полной загрузки
+        const currentInfo = await dbService.getDatabaseInfo();
+        const patched = await this.tryPatchUpdate(latestDb, currentInfo, dbService, onProgress, signal);
+        if (patched) {
+          return patched;
+        }
 
-      const { metadata, cards } = databaseData;
+        // Загружаем данные
+        const downloaded = await this.downloadDatasetFile(latestDb, currentInfo, onProgress, signal);
+        if (!downloaded) {
+          return { success: false, error: 'Failed to download database data' };
+        }
 
-      // Просто сохраняем новые данные - метод saveCards сам очистит старые
-      const { DatabaseService } = await import('./database');
-      const dbService = new DatabaseService();
-      await dbService.init();
-      
-      console.log(`💾 Saving ${cards.length} cards to database...`);
-      await dbService.saveCards(cards);
+        const { file, download, mirror } = downloaded;
 
-      // Сохраняем информацию о базе данных
-      const dbInfo = this.parseDatabaseInfo(latestDb, metadata);
-      dbInfo.totalCards = cards.length;
-      await dbService.saveDatabaseInfo(dbInfo);
+        if (download.notModified) {
+          // Ревизия в листинге могла смениться при том же содержимом - запоминаем ее,
+          // иначе следующая проверка снова сочтет базу устаревшей
+          const { version, releaseId } = this.parseDatabaseInfo(file, null);
+          if (currentInfo && currentInfo.version !== version) {
+            await dbService.saveDatabaseInfo({ ...currentInfo, version, releaseId });
+          }
 
-      console.log(`✅ Database updated successfully: ${cards.length} cards`);
-      return { success: true, cardsCount: cards.length };
+          const cardsCount = await dbService.getCardsCount();
+          return {
+            success: true,
+            notModified: true,
+            cardsCount,
+            changes: { added: 0, changed: 0, removed: 0, unchanged: cardsCount },
+            filename: currentInfo?.filename,
+            version
+          };
+        }
 
+        const downloadInfo = GitHubService.getDownloadInfo(download, mirror);
+        return this.importDataset(dbService, file, this.parseDatasetPayload(download.data), downloadInfo, onProgress, signal);
+      });
     } catch (error) {
       console.error('❌ Error updating database:', error);
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorCode: GitHubService.getUpdateErrorCode(error)
+      };
+    }
+  }
+
+  /**
+   * Отдельное соединение на время обновления или импорта. Закрывается в любом случае,
+   * иначе оно блокирует удаление базы при очистке.
+   */
+  private async withDatabase<T>(action: (dbService: DatabaseService) => Promise<T>): Promise<T> {
+    const { DatabaseService } = await import('./database');
+    const dbService = new DatabaseService();
+    await dbService.init();
+
+    try {
+      return await action(dbService);
+    } finally {
+      dbService.close();
     }
   }
 
-  private async sendMessageToBackground(action: string, data: any): Promise<any> {
-    return new Promise((resolve, reject) => {
-      // Проверяем, доступен ли chrome.runtime
-      if (!chrome?.runtime?.id) {
-        reject(new Error('Extension context invalidated'));
-        return;
+  // Сведения о загрузке для DatabaseInfo: адрес и хост зеркала, ETag и проверенный хеш
+  private static getDownloadInfo(download: DatasetDownload, mirror: MirrorCandidate): Partial<DatabaseInfo> {
+    return {
+      etag: download.etag,
+      integrity: download.integrity,
+      downloadUrl: mirror.url,
+      mirror: mirror.host
+    };
+  }
+
+  private static getUpdateErrorCode(error: unknown): UpdateErrorCode {
+    if (error instanceof DatasetNotFoundError) return 'NOT_FOUND';
+    if (error instanceof RateLimitError) return 'RATE_LIMITED';
+    if (error instanceof IntegrityError) return 'INTEGRITY';
+    if (error instanceof UpdateCancelledError) return 'CANCELLED';
+    return 'UPDATE_FAILED';
+  }
+
+  /**
+   * Накладывает патч на текущие карты. Возвращает null, если патча нет или он не подошел, -
+   * тогда вызывающий код загружает полный файл.
+   */
+  private async tryPatchUpdate(
+    targetDb: DatasetFile,
+    currentInfo: DatabaseInfo | null,
+    dbService: DatabaseService,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<UpdateResult | null> {
+    if (!currentInfo?.filename || currentInfo.filename === targetDb.name) {
+      return null;
+    }
+
+    try {
+      const patchFile = await this.getPatchFile(currentInfo.filename, targetDb.name);
+      if (!patchFile) {
+        return null;
       }
 
-      console.log('Sending message to background:', { action, data });
-      
-      chrome.runtime.sendMessage(
-        { type: action, data },
-        (response) => {
-          console.log('Background response received:', response);
-          console.log('Chrome runtime last error:', chrome.runtime.lastError);
-          
-          if (chrome.runtime.lastError) {
-            // Если background script недоступен, отклоняем промис
-            reject(new Error(chrome.runtime.lastError.message));
-          } else if (response) {
-            resolve(response);
-          } else {
-            reject(new Error('No response from background script'));
-          }
+      console.log(`🩹 Applying patch ${patchFile.name}`);
+      const downloaded = await this.downloadDatasetFile(patchFile, null, onProgress, signal);
+      if (!downloaded) {
+        throw new Error('Failed to download patch');
+      }
+
+      const patch = parsePatch(downloaded.download.data, currentInfo.filename, targetDb.name);
+      const payload = applyPatch(await dbService.getAllCards(), patch);
+      console.log(`🩹 Patch applied: +${patch.added.length} ~${patch.changed.length} -${patch.removed.length}`);
+
+      // Сохраняем сведения о загруженном патче: проверенный хеш, зеркало и ETag для условного запроса
+      const downloadInfo = GitHubService.getDownloadInfo(downloaded.download, downloaded.mirror);
+      const result = await this.importDataset(dbService, targetDb, payload, downloadInfo, onProgress, signal);
+      return { ...result, patch: patchFile.name };
+    } catch (error) {
+      if (error instanceof UpdateCancelledError) {
+        throw error;
+      }
+      console.warn('⚠️ Patch update failed, downloading full dataset:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Загружает выбранный вариант датасета; если сжатый файл не удалось скачать или распаковать,
+   * пробует несжатый.
+   */
+  private async downloadDatasetFile(
+    dbFile: DatasetFile,
+    currentInfo: DatabaseInfo | null,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<{ file: DatasetFile; download: DatasetDownload; mirror: MirrorCandidate } | null> {
+    const settings = await new SettingsService().getSettings();
+    const mirrors = await this.mirrorService.getCandidates(dbFile, settings.mirrorTemplate || undefined);
+    let integrityError: IntegrityError | null = null;
+
+    for (const mirror of mirrors) {
+      // Тот же файл, что уже импортирован с этого адреса, - запрашиваем условно по ETag
+      const etag = currentInfo?.downloadUrl === mirror.url ? currentInfo.etag : undefined;
+
+      try {
+        console.log(`🪞 Downloading ${dbFile.name} from ${mirror.host}`);
+        const download = await this.downloadDatabaseData(mirror.url, {
+          etag,
+          file: dbFile,
+          onProgress,
+          signal,
+          timeoutMs: GitHubService.MIRROR_TIMEOUT
+        });
+
+        if (download) {
+          await this.mirrorService.remember(mirror);
+          return { file: dbFile, download, mirror };
+        }
+      } catch (error) {
+        // Зеркало может отдавать устаревшую копию - такой файл не берем, но пробуем следующее
+        if (!(error instanceof IntegrityError)) {
+          throw error;
         }
-      );
+        integrityError = error;
+      }
+
+      console.warn(`⚠️ Mirror ${mirror.host} failed, trying next`);
+    }
+
+    if (dbFile.fallback) {
+      console.warn(`⚠️ Compressed dataset failed, falling back to ${dbFile.fallback.downloadUrl}`);
+      return this.downloadDatasetFile(dbFile.fallback, currentInfo, onProgress, signal);
+    }
+
+    if (integrityError) {
+      throw integrityError;
+    }
+    return null;
+  }
+
+  /**
+   * Импорт файла, выбранного пользователем (экспорт расширения или файл датасета).
+   * Данные проходят тот же путь, что и загрузка с GitHub.
+   */
+  async importFromFile(data: any, fileName: string, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<UpdateResult> {
+    const result = await this.runImportFromFile(data, fileName, onProgress, signal);
+    this.reportFinished(result, onProgress);
+    return result;
+  }
+
+  private async runImportFromFile(data: any, fileName: string, onProgress?: ProgressCallback, signal?: AbortSignal): Promise<UpdateResult> {
+    try {
+      const payload = this.parseDatasetPayload(data);
+      const exportedInfo: DatabaseInfo | null = data?.format === GitHubService.EXPORT_FORMAT ? data.info : null;
+
+      // Для экспорта сохраняем имя исходного датасета, чтобы проверка обновлений работала как прежде
+      const dbFile: DatasetFile = {
+        name: exportedInfo?.filename || fileName,
+        downloadUrl: exportedInfo?.downloadUrl || ''
+      };
+
+      console.log(`📂 Importing ${payload.cards.length} cards from file ${fileName}`);
+      return await this.withDatabase(dbService => this.importDataset(dbService, dbFile, payload, {}, onProgress, signal));
+    } catch (error) {
+      console.error('❌ Error importing database file:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        errorCode: GitHubService.getUpdateErrorCode(error)
+      };
+    }
+  }
+
+  /**
+   * Приводит содержимое файла к виду { metadata, cards }. Поддерживаются массив карт,
+   * формат датасета ({ metadata, cards }) и экспорт расширения ({ format, info, cards }).
+   */
+  parseDatasetPayload(data: any): DatasetPayload {
+    if (Array.isArray(data)) {
+      // Совсем старый формат - массив карт
+      return { metadata: null, cards: data };
+    }
+
+    if (!data || typeof data !== 'object' || !Array.isArray(data.cards)) {
+      throw new Error('Unknown dataset format: expected an array of cards or an object with a cards array');
+    }
+
+    if (data.format === GitHubService.EXPORT_FORMAT) {
+      const info: DatabaseInfo | null = data.info;
+      return {
+        metadata: info ? { timestamp: info.timestamp, version: info.version, total_cards: info.totalCards } : null,
+        cards: data.cards
+      };
+    }
+
+    // Текущий формат - объект с полями metadata и cards
+    return { metadata: data.metadata, cards: data.cards };
+  }
+
+  private async importDataset(
+    dbService: DatabaseService,
+    dbFile: DatasetFile,
+    payload: DatasetPayload,
+    downloadInfo: Partial<DatabaseInfo> = {},
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<UpdateResult> {
+    const { metadata } = payload;
+
+    if (payload.cards.length === 0) {
+      throw new Error('Dataset contains no cards');
+    }
+
+    // Проверяем записи: некорректные пропускаем и сохраняем в отчет карантина
+    const { cards, report } = validateCards(payload.cards);
+    report.filename = dbFile.name;
+    await dbService.saveQuarantineReport(report);
+
+    if (report.rejected) {
+      throw new Error(`Dataset rejected: ${report.quarantinedCount} of ${report.totalRecords} records are malformed`);
+    }
+
+    if (signal?.aborted) {
+      throw new UpdateCancelledError();
+    }
+
+    // Сначала пишем данные в промежуточное хранилище, рабочие карты остаются доступны
+    console.log(`💾 Staging ${cards.length} cards...`);
+    await dbService.stageCards(cards, saved => {
+      onProgress?.({ phase: 'saving', loaded: saved, total: cards.length, filename: dbFile.name });
+    });
+
+    // Переносим подготовленные данные вместе с информацией о базе одной транзакцией
+    const dbInfo: DatabaseInfo = { ...this.parseDatabaseInfo(dbFile, metadata), ...downloadInfo };
+    dbInfo.totalCards = cards.length;
+
+    const settings = await new SettingsService().getSettings();
+
+    // Отменить можно до переноса в рабочие таблицы - подготовленные данные просто отбрасываются
+    if (signal?.aborted) {
+      await dbService.discardStagedCards().catch(() => undefined);
+      throw new UpdateCancelledError();
+    }
+
+    onProgress?.({ phase: 'committing', loaded: 0, total: cards.length, filename: dbFile.name });
+
+    let changes: ImportStats;
+    try {
+      changes = await dbService.commitStagedCards(dbInfo, settings.historyRetentionDays);
+    } catch (commitError) {
+      console.error('❌ Staged import rejected, keeping previous dataset:', commitError);
+      await dbService.discardStagedCards().catch(() => undefined);
+      throw commitError;
+    }
+
+    console.log(`✅ Database updated successfully: ${cards.length} cards (+${changes.added} ~${changes.changed} -${changes.removed})`);
+    return { success: true, cardsCount: cards.length, changes, quarantined: report.quarantinedCount, filename: dbInfo.filename, version: dbInfo.version };
+  }
+
+  private reportFinished(result: UpdateResult, onProgress?: ProgressCallback): void {
+    onProgress?.({
+      phase: result.success ? 'done' : 'failed',
+      loaded: result.cardsCount || 0,
+      total: result.cardsCount || null,
+      filename: result.filename,
+      error: result.error
     });
   }
+
+  /**
+   * Читает тело ответа потоком и сообщает о прогрессе. Размер берется из Content-Length,
+   * а для сжатых при передаче ответов - из размера файла в листинге.
+   */
+  private async readResponseBody(
+    response: Response,
+    expectedSize?: number,
+    onProgress?: ProgressCallback,
+    onChunk?: () => void
+  ): Promise<Uint8Array> {
+    const encoding = response.headers.get('content-encoding');
+    const contentLength = Number(response.headers.get('content-length')) || 0;
+    const total = (!encoding || encoding === 'identity') && contentLength > 0 ? contentLength : expectedSize || null;
+
+    if (!response.body) {
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      onProgress?.({ phase: 'downloading', loaded: bytes.length, total: total || bytes.length });
+      return bytes;
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    let lastReported = -1;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      chunks.push(value);
+      loaded += value.length;
+      onChunk?.();
+
+      // Не чаще раза на процент (или на 256 КБ, если размер неизвестен)
+      const step = total ? Math.floor(loaded / total * 100) : Math.floor(loaded / (256 * 1024));
+      if (step !== lastReported) {
+        lastReported = step;
+        onProgress?.({ phase: 'downloading', loaded, total });
+      }
+    }
+
+    const bytes = new Uint8Array(loaded);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return bytes;
+  }
 }
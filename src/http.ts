@@ -0,0 +1,183 @@
+import { RateLimitState } from './types';
+
+// Ответ API: лимит запросов исчерпан до resetAt
+export class RateLimitError extends Error {
+  constructor(public readonly resetAt: number) {
+    super(`GitHub API rate limit exceeded, resets at ${new Date(resetAt).toISOString()}`);
+    this.name = 'RateLimitError';
+  }
+}
+
+const GITHUB_HOSTS = ['api.github.com', 'github.com', 'raw.githubusercontent.com', 'objects.githubusercontent.com'];
+
+export function isGitHubUrl(url: string): boolean {
+  try {
+    return GITHUB_HOSTS.includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Добавляет токен GitHub к заголовкам запроса. Токен уходит только на хосты GitHub,
+ * сторонним источникам он не передается.
+ */
+export function withGitHubAuth(url: string, headers: Record<string, string>, token?: string): Record<string, string> {
+  return token && isGitHubUrl(url) ? { ...headers, 'Authorization': `Bearer ${token}` } : headers;
+}
+
+/**
+ * Таймаут бездействия запроса: срабатывает, если за timeoutMs не пришло ни заголовков, ни новых данных.
+ * В отличие от общего таймаута не обрывает медленную, но идущую загрузку большого файла.
+ */
+export class IdleTimeout {
+  private readonly controller = new AbortController();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  // parent - внешний сигнал отмены (например, отмена обновления пользователем)
+  constructor(private readonly timeoutMs: number, parent?: AbortSignal) {
+    if (parent?.aborted) {
+      this.controller.abort(parent.reason);
+      return;
+    }
+    parent?.addEventListener('abort', () => {
+      this.clear();
+      this.controller.abort(parent.reason);
+    }, { once: true });
+    this.touch();
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  touch(): void {
+    this.clear();
+    this.timer = setTimeout(() => {
+      this.controller.abort(new Error(`Request timed out after ${this.timeoutMs} ms without data`));
+    }, this.timeoutMs);
+  }
+
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+interface CachedEntry<T> {
+  etag?: string;
+  lastModified?: string;
+  value: T;
+  storedAt: number;
+}
+
+/**
+ * Состояние лимита GitHub API из заголовков X-RateLimit-*.
+ * Хранится в chrome.storage, чтобы пережить перезапуск service worker.
+ */
+export class RateLimitTracker {
+  private static readonly STORAGE_KEY = 'rateLimit';
+
+  async update(response: Response): Promise<RateLimitState | null> {
+    const remaining = response.headers.get('x-ratelimit-remaining');
+    const reset = response.headers.get('x-ratelimit-reset');
+    if (remaining === null || reset === null) {
+      return null;
+    }
+
+    const state: RateLimitState = {
+      limit: parseInt(response.headers.get('x-ratelimit-limit') || '0', 10),
+      remaining: parseInt(remaining, 10),
+      resetAt: parseInt(reset, 10) * 1000,
+      updatedAt: Date.now()
+    };
+
+    await chrome.storage.local.set({ [RateLimitTracker.STORAGE_KEY]: state });
+    if (state.remaining === 0) {
+      console.warn(`⛔ GitHub API rate limit exhausted until ${new Date(state.resetAt).toLocaleTimeString()}`);
+    }
+    return state;
+  }
+
+  async getState(): Promise<RateLimitState | null> {
+    const result = await chrome.storage.local.get(RateLimitTracker.STORAGE_KEY);
+    return result[RateLimitTracker.STORAGE_KEY] || null;
+  }
+
+  async reset(): Promise<void> {
+    await chrome.storage.local.remove(RateLimitTracker.STORAGE_KEY);
+  }
+
+  // Время сброса, если лимит сейчас исчерпан, иначе null
+  async getBlockedUntil(): Promise<number | null> {
+    const state = await this.getState();
+    return state && state.remaining === 0 && state.resetAt > Date.now() ? state.resetAt : null;
+  }
+}
+
+/**
+ * Условные запросы (If-None-Match / If-Modified-Since) с кешем разобранного ответа.
+ * На 304 возвращается значение из кеша, тело заново не скачивается.
+ */
+export class HttpCache {
+  private static readonly STORAGE_KEY = 'httpCache';
+  private static readonly MAX_ENTRIES = 20;
+
+  constructor(private readonly rateLimit: RateLimitTracker = new RateLimitTracker()) {}
+
+  async fetch<T>(url: string, init: RequestInit, parse: (response: Response) => Promise<T>): Promise<T> {
+    const blockedUntil = await this.rateLimit.getBlockedUntil();
+    if (blockedUntil && new URL(url).hostname === 'api.github.com') {
+      throw new RateLimitError(blockedUntil);
+    }
+
+    const entries = await this.getEntries();
+    const cached = entries[url] as CachedEntry<T> | undefined;
+
+    const headers = new Headers(init.headers);
+    if (cached?.etag) {
+      headers.set('If-None-Match', cached.etag);
+    } else if (cached?.lastModified) {
+      headers.set('If-Modified-Since', cached.lastModified);
+    }
+
+    const response = await fetch(url, { ...init, headers });
+    const rateLimit = await this.rateLimit.update(response);
+
+    if (response.status === 304 && cached) {
+      console.log(`♻️ Not modified, using cached response for ${url}`);
+      return cached.value;
+    }
+
+    if ((response.status === 403 || response.status === 429) && rateLimit?.remaining === 0) {
+      throw new RateLimitError(rateLimit.resetAt);
+    }
+
+    const value = await parse(response);
+
+    const etag = response.headers.get('etag') || undefined;
+    const lastModified = response.headers.get('last-modified') || undefined;
+    if (response.ok && (etag || lastModified)) {
+      entries[url] = { etag, lastModified, value, storedAt: Date.now() };
+      await this.saveEntries(entries);
+    }
+
+    return value;
+  }
+
+  private async getEntries(): Promise<Record<string, CachedEntry<unknown>>> {
+    const result = await chrome.storage.local.get(HttpCache.STORAGE_KEY);
+    return result[HttpCache.STORAGE_KEY] || {};
+  }
+
+  private async saveEntries(entries: Record<string, CachedEntry<unknown>>): Promise<void> {
+    // Оставляем только самые свежие записи
+    const urls = Object.keys(entries).sort((a, b) => entries[b].storedAt - entries[a].storedAt);
+    for (const url of urls.slice(HttpCache.MAX_ENTRIES)) {
+      delete entries[url];
+    }
+    await chrome.storage.local.set({ [HttpCache.STORAGE_KEY]: entries });
+  }
+}
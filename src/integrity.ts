@@ -0,0 +1,68 @@
+import { DatasetFile, DatasetIntegrity } from './types';
+import { withGitHubAuth } from './http';
+
+// Загруженный файл не совпадает с тем, что объявлено в листинге
+export class IntegrityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntegrityError';
+  }
+}
+
+/**
+ * Проверяет байты файла в том виде, в каком он лежит в источнике (до распаковки):
+ * размер из листинга, затем sha256 (из манифеста или файла контрольной суммы),
+ * затем git blob sha из листинга GitHub. Возвращает проверенный хеш или null, если сверять не с чем.
+ */
+export async function verifyDatasetBytes(bytes: Uint8Array, file: DatasetFile, githubToken?: string): Promise<DatasetIntegrity | null> {
+  if (typeof file.size === 'number' && bytes.length !== file.size) {
+    throw new IntegrityError(`Integrity check failed for ${file.downloadUrl}: expected ${file.size} bytes, got ${bytes.length}`);
+  }
+
+  const expectedSha256 = file.sha256 || (file.checksumUrl ? await fetchChecksum(file.checksumUrl, githubToken) : undefined);
+  if (expectedSha256) {
+    const actual = await digestHex('SHA-256', bytes);
+    if (actual !== expectedSha256.toLowerCase()) {
+      throw new IntegrityError(`Integrity check failed for ${file.downloadUrl}: sha256 mismatch`);
+    }
+    return { algorithm: 'sha256', hash: actual, size: bytes.length };
+  }
+
+  if (file.sha) {
+    const actual = await gitBlobSha1(bytes);
+    if (actual !== file.sha.toLowerCase()) {
+      throw new IntegrityError(`Integrity check failed for ${file.downloadUrl}: git blob sha mismatch`);
+    }
+    return { algorithm: 'git-blob-sha1', hash: actual, size: bytes.length };
+  }
+
+  return null;
+}
+
+// Хеш объекта git: sha1("blob <size>\0" + содержимое)
+export async function gitBlobSha1(bytes: Uint8Array): Promise<string> {
+  const header = new TextEncoder().encode(`blob ${bytes.length}\0`);
+  const blob = new Uint8Array(header.length + bytes.length);
+  blob.set(header, 0);
+  blob.set(bytes, header.length);
+  return digestHex('SHA-1', blob);
+}
+
+async function digestHex(algorithm: 'SHA-1' | 'SHA-256', bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest(algorithm, bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Формат sha256sum: "<hex>  <имя файла>"
+async function fetchChecksum(url: string, githubToken?: string): Promise<string> {
+  const response = await fetch(url, { cache: 'no-cache', headers: withGitHubAuth(url, {}, githubToken) });
+  if (!response.ok) {
+    throw new IntegrityError(`Could not fetch checksum file ${url}: HTTP ${response.status}`);
+  }
+
+  const match = (await response.text()).match(/\b[0-9a-fA-F]{64}\b/);
+  if (!match) {
+    throw new IntegrityError(`Checksum file ${url} does not contain a sha256 hash`);
+  }
+  return match[0];
+}
@@ -0,0 +1,90 @@
+import { ProgressCallback, UpdateJobKind, UpdateJobState, UpdateResult } from './types';
+
+export type UpdateTask = (signal: AbortSignal, onProgress: ProgressCallback) => Promise<UpdateResult>;
+
+interface UpdateJob {
+  state: Omit<UpdateJobState, 'queued'>;
+  // Одинаковые запросы (то же обновление, та же версия) присоединяются к уже созданному заданию
+  key: string;
+  controller: AbortController;
+  promise: Promise<UpdateResult>;
+}
+
+/**
+ * Очередь обновлений базы: задания выполняются строго по одному, поэтому запись карт
+ * из разных обновлений не пересекается. Повторный запрос того же обновления не ставится в очередь,
+ * а получает результат уже запущенного.
+ */
+export class UpdateJobManager {
+  private current: UpdateJob | null = null;
+  private queue: UpdateJob[] = [];
+  private tail: Promise<unknown> = Promise.resolve();
+  private nextId = 1;
+
+  // onProgress - общий обработчик прогресса (рассылка в popup и вкладки)
+  constructor(private readonly onProgress: ProgressCallback) {}
+
+  run(kind: UpdateJobKind, target: string | undefined, task: UpdateTask): Promise<UpdateResult> {
+    // Импорт всегда выполняется заново: одинаковое имя файла не означает одинаковое содержимое
+    const key = kind === 'import' ? `import:${this.nextId}` : `${kind}:${target || ''}`;
+
+    const existing = [this.current, ...this.queue].find(job => job?.key === key && !job.state.cancelRequested);
+    if (existing) {
+      existing.state.waiters++;
+      console.log(`🔗 Joining running ${kind} job #${existing.state.id}`);
+      return existing.promise;
+    }
+
+    // Следующее задание начинается после завершения предыдущего, даже неудачного
+    const promise = this.tail.then(() => this.execute(job, task));
+    const job: UpdateJob = {
+      state: { id: this.nextId++, kind, target, startedAt: 0, progress: null, cancelRequested: false, waiters: 1 },
+      key,
+      controller: new AbortController(),
+      promise
+    };
+
+    this.queue.push(job);
+    this.tail = promise.catch(() => undefined);
+    return promise;
+  }
+
+  /**
+   * Отменяет выполняющееся задание. Задания в очереди не затрагиваются, очистку базы прервать нельзя.
+   */
+  cancel(): boolean {
+    if (!this.current || this.current.state.cancelRequested || this.current.state.kind === 'clear') {
+      return false;
+    }
+
+    console.log(`⏹️ Cancelling ${this.current.state.kind} job #${this.current.state.id}`);
+    this.current.state.cancelRequested = true;
+    this.current.controller.abort();
+    return true;
+  }
+
+  // Текущее задание, а между заданиями - следующее в очереди, которое вот-вот начнется
+  getState(): UpdateJobState | null {
+    const job = this.current || this.queue[0];
+    if (!job) {
+      return null;
+    }
+    return { ...job.state, queued: this.current ? this.queue.length : this.queue.length - 1 };
+  }
+
+  private async execute(job: UpdateJob, task: UpdateTask): Promise<UpdateResult> {
+    this.queue.splice(this.queue.indexOf(job), 1);
+    this.current = job;
+    job.state.startedAt = Date.now();
+    console.log(`▶️ Starting ${job.state.kind} job #${job.state.id}${job.state.target ? ` (${job.state.target})` : ''}`);
+
+    try {
+      return await task(job.controller.signal, progress => {
+        job.state.progress = progress;
+        this.onProgress(progress);
+      });
+    } finally {
+      this.current = null;
+    }
+  }
+}
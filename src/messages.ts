@@ -0,0 +1,315 @@
+import {
+  AnimeListQuery,
+  AnimeListResult,
+  AnimeStats,
+  CardHistoryEntry,
+  CardQuery,
+  CardQueryResult,
+  CardSearchResult,
+  CardStats,
+  DatabaseExport,
+  DatabaseInfo,
+  DatasetFile,
+  DatasetIntegrity,
+  ExtensionSettings,
+  ImportStats,
+  QuarantineReport,
+  RateLimitState,
+  UpdateCheckState,
+  UpdateJobState,
+  UpdateProgress,
+  UpdateResult
+} from './types';
+
+/**
+ * Протокол сообщений между content script, popup и background.
+ * Каждый запрос - { type, data }, каждый ответ - конверт { success: true, data } или
+ * { success: false, error: { code, message } }.
+ */
+
+export type MessageErrorCode =
+  | 'INVALID_MESSAGE'   // Неизвестный тип или некорректные данные запроса
+  | 'NOT_FOUND'         // Запрошенный объект (версия датасета, файл) не найден
+  | 'RATE_LIMITED'      // Исчерпан лимит GitHub API
+  | 'INTEGRITY'         // Загруженный файл не прошел проверку целостности
+  | 'CANCELLED'         // Обновление отменено пользователем
+  | 'UPDATE_FAILED'     // Обновление или импорт базы не выполнены
+  | 'TIMEOUT'           // Ответ не пришел вовремя
+  | 'UNAVAILABLE'       // Background недоступен (worker не запущен, контекст расширения потерян)
+  | 'INTERNAL';         // Прочие ошибки
+
+export interface MessageError {
+  code: MessageErrorCode;
+  message: string;
+}
+
+export type MessageResponse<T> = { success: true; data: T } | { success: false; error: MessageError };
+
+// Сводка для popup: информация о базе вместе с состоянием источника и расписания
+export interface DatabaseStatus {
+  version: string;
+  timestamp?: string;
+  totalCards: number;
+  filename?: string;
+  downloadUrl?: string;
+  integrity?: DatasetIntegrity;
+  mirror?: string;
+  releaseId?: number;
+  source: string;
+  rateLimit: RateLimitState | null;
+  lastCheck: UpdateCheckState | null;
+  cardsCount: number;
+  lastUpdate?: string;
+}
+
+export interface TokenTestResult {
+  authenticated: boolean;
+  rateLimit: RateLimitState;
+}
+
+/**
+ * Запросы к background: данные запроса и данные успешного ответа.
+ */
+export interface RequestMap {
+  ping: { request: undefined; response: null };
+  getDatabasesList: { request: undefined; response: DatasetFile[] };
+  downloadDatabase: { request: { url: string }; response: unknown };
+  checkUpdates: { request: undefined; response: { needsUpdate: boolean } };
+  forceUpdate: { request: undefined; response: UpdateResult };
+  listDatasetVersions: { request: undefined; response: DatabaseInfo[] };
+  loadDatasetVersion: { request: { filename: string; pin?: boolean }; response: UpdateResult };
+  exportDatabase: { request: undefined; response: DatabaseExport };
+  importDatabase: { request: { content: unknown; fileName?: string }; response: UpdateResult };
+  clearDatabase: { request: undefined; response: null };
+  getDatabaseInfo: { request: undefined; response: DatabaseStatus };
+  getCardsCount: { request: undefined; response: number };
+  getCardStats: { request: { cardId: number }; response: CardStats | null };
+  getCardStatsBatch: { request: { cardIds: number[] }; response: Record<number, CardStats | null> };
+  findCardByImage: { request: { imageUrl: string }; response: number | null };
+  findCardsByImages: { request: { imageUrls: string[] }; response: Record<string, number | null> };
+  getCardHistory: { request: { cardId: number }; response: CardHistoryEntry[] };
+  searchCards: { request: { query: string; limit?: number }; response: CardSearchResult[] };
+  queryCards: { request: CardQuery | undefined; response: CardQueryResult };
+  getAnimeStats: { request: { animeId: number }; response: AnimeStats | null };
+  listAnime: { request: AnimeListQuery | undefined; response: AnimeListResult };
+  getQuarantineReport: { request: undefined; response: QuarantineReport | null };
+  getSettings: { request: undefined; response: ExtensionSettings };
+  updateSettings: { request: Partial<ExtensionSettings>; response: ExtensionSettings };
+  testGitHubToken: { request: { token?: string } | undefined; response: TokenTestResult };
+  getUpdateJob: { request: undefined; response: UpdateJobState | null };
+  cancelUpdate: { request: undefined; response: { cancelled: boolean } };
+}
+
+export type RequestType = keyof RequestMap;
+export type RequestData<K extends RequestType> = RequestMap[K]['request'];
+export type ResponseData<K extends RequestType> = RequestMap[K]['response'];
+
+// Дискриминированное объединение всех запросов: сужается по полю type
+export type BackgroundRequest = { [K in RequestType]: { type: K; data: RequestData<K> } }[RequestType];
+
+/**
+ * Уведомления от background: рассылаются во вкладки (chrome.tabs.sendMessage) и в порт прогресса.
+ */
+export interface NotificationMap {
+  updateStarted: UpdateProgress;
+  databaseUpdated: { cardsCount?: number; changes?: ImportStats; message: string };
+  updateProgress: UpdateProgress;
+}
+
+export type NotificationType = keyof NotificationMap;
+export type BackgroundNotification = { [K in NotificationType]: { type: K; data: NotificationMap[K] } }[NotificationType];
+
+// Ошибка запроса с кодом протокола - бросается обработчиками и клиентом
+export class MessageRequestError extends Error {
+  constructor(public readonly code: MessageErrorCode, message: string) {
+    super(message);
+    this.name = 'MessageRequestError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+const isCardId = (value: unknown): boolean => isInteger(value) && value > 0;
+const isOptional = (value: unknown, check: (value: unknown) => boolean): boolean => value === undefined || check(value);
+const isOneOf = (values: readonly unknown[]) => (value: unknown): boolean => values.includes(value);
+// Лишние поля не пропускаем: опечатка в имени поля иначе молча игнорируется
+const hasOnlyKeys = (value: Record<string, unknown>, keys: readonly string[]): boolean => Object.keys(value).every(key => keys.includes(key));
+
+const SORT_ORDERS: readonly NonNullable<CardQuery['sortOrder']>[] = ['asc', 'desc'];
+const CARD_SORT_FIELDS: readonly NonNullable<CardQuery['sortBy']>[] = ['users', 'need', 'trade', 'cardId', 'cardName'];
+const ANIME_SORT_FIELDS: readonly NonNullable<AnimeListQuery['sortBy']>[] = ['cardCount', 'animeName', 'users', 'need', 'trade'];
+
+// Общие поля постраничных запросов: сортировка, смещение и размер страницы
+function isPageQuery(query: Record<string, unknown>, sortFields: readonly string[]): boolean {
+  return isOptional(query.sortBy, isOneOf(sortFields))
+    && isOptional(query.sortOrder, isOneOf(SORT_ORDERS))
+    && isOptional(query.offset, value => isInteger(value) && value >= 0)
+    && isOptional(query.limit, value => isInteger(value) && value > 0);
+}
+
+function isNumericRange(value: unknown): boolean {
+  return isObject(value) && hasOnlyKeys(value, ['min', 'max']) && isOptional(value.min, isNumber) && isOptional(value.max, isNumber);
+}
+
+function isCardQuery(value: unknown): boolean {
+  return isObject(value)
+    && hasOnlyKeys(value, ['cardRank', 'animeId', 'cardAuthor', 'users', 'need', 'trade', 'sortBy', 'sortOrder', 'offset', 'limit'])
+    && isOptional(value.cardRank, rank => isString(rank) || (Array.isArray(rank) && rank.every(isString)))
+    && isOptional(value.animeId, isInteger)
+    && isOptional(value.cardAuthor, isString)
+    && isOptional(value.users, isNumericRange)
+    && isOptional(value.need, isNumericRange)
+    && isOptional(value.trade, isNumericRange)
+    && isPageQuery(value, CARD_SORT_FIELDS);
+}
+
+function isAnimeListQuery(value: unknown): boolean {
+  return isObject(value) && hasOnlyKeys(value, ['sortBy', 'sortOrder', 'offset', 'limit']) && isPageQuery(value, ANIME_SORT_FIELDS);
+}
+
+// Форма источника; непустые значения и корректность адресов проверяет SettingsService
+function isDataSourceConfig(value: unknown): boolean {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  switch (value.type) {
+    case 'github':
+      return hasOnlyKeys(value, ['type', 'owner', 'repo', 'path', 'branch'])
+        && isString(value.owner) && isString(value.repo) && isString(value.path) && isOptional(value.branch, isString);
+    case 'http':
+      return hasOnlyKeys(value, ['type', 'manifestUrl']) && isString(value.manifestUrl);
+    case 'url':
+      return hasOnlyKeys(value, ['type', 'url']) && isString(value.url);
+    case 'release':
+      return hasOnlyKeys(value, ['type', 'owner', 'repo', 'assetPattern'])
+        && isString(value.owner) && isString(value.repo) && isString(value.assetPattern);
+    default:
+      return false;
+  }
+}
+
+// Типы полей настроек; границы числовых значений применяет SettingsService
+function isSettingsPatch(value: unknown): boolean {
+  return isObject(value)
+    && hasOnlyKeys(value, ['historyRetentionDays', 'dataSource', 'githubToken', 'pinnedVersion', 'mirrorTemplate', 'updateIntervalHours'])
+    && isOptional(value.historyRetentionDays, isNumber)
+    && isOptional(value.dataSource, isDataSourceConfig)
+    && isOptional(value.githubToken, isString)
+    && isOptional(value.pinnedVersion, version => version === null || isString(version))
+    && isOptional(value.mirrorTemplate, isString)
+    && isOptional(value.updateIntervalHours, isNumber);
+}
+
+// Проверка данных запроса по типу; для запросов без данных data не проверяется
+const REQUEST_VALIDATORS: { [K in RequestType]: (data: unknown) => boolean } = {
+  ping: () => true,
+  getDatabasesList: () => true,
+  downloadDatabase: data => isObject(data) && isString(data.url),
+  checkUpdates: () => true,
+  forceUpdate: () => true,
+  listDatasetVersions: () => true,
+  loadDatasetVersion: data => isObject(data) && isString(data.filename) && data.filename !== '' && isOptional(data.pin, value => typeof value === 'boolean'),
+  exportDatabase: () => true,
+  importDatabase: data => isObject(data) && data.content !== undefined && isOptional(data.fileName, isString),
+  clearDatabase: () => true,
+  getDatabaseInfo: () => true,
+  getCardsCount: () => true,
+  getCardStats: data => isObject(data) && isCardId(data.cardId),
+  getCardStatsBatch: data => isObject(data) && Array.isArray(data.cardIds) && data.cardIds.every(isCardId),
+  findCardByImage: data => isObject(data) && isString(data.imageUrl),
+  findCardsByImages: data => isObject(data) && Array.isArray(data.imageUrls) && data.imageUrls.every(isString),
+  getCardHistory: data => isObject(data) && isCardId(data.cardId),
+  searchCards: data => isObject(data) && isString(data.query) && isOptional(data.limit, value => isInteger(value) && value > 0),
+  queryCards: data => isOptional(data, isCardQuery),
+  getAnimeStats: data => isObject(data) && isInteger(data.animeId),
+  listAnime: data => isOptional(data, isAnimeListQuery),
+  getQuarantineReport: () => true,
+  getSettings: () => true,
+  updateSettings: isSettingsPatch,
+  testGitHubToken: data => isOptional(data, value => isObject(value) && isOptional(value.token, isString)),
+  getUpdateJob: () => true,
+  cancelUpdate: () => true
+};
+
+/**
+ * Проверяет входящее сообщение и возвращает типизированный запрос.
+ * Сообщения не от нашего протокола (без известного type) и запросы с некорректными данными отклоняются.
+ */
+export function parseRequest(message: unknown): BackgroundRequest {
+  if (!isObject(message) || typeof message.type !== 'string') {
+    throw new MessageRequestError('INVALID_MESSAGE', 'Message must be an object with a string type');
+  }
+
+  if (!Object.prototype.hasOwnProperty.call(REQUEST_VALIDATORS, message.type)) {
+    throw new MessageRequestError('INVALID_MESSAGE', `Unknown message type: ${message.type}`);
+  }
+
+  const type = message.type as RequestType;
+  if (!REQUEST_VALIDATORS[type](message.data)) {
+    throw new MessageRequestError('INVALID_MESSAGE', `Invalid data for message ${type}`);
+  }
+
+  return { type, data: message.data } as BackgroundRequest;
+}
+
+export function isBackgroundNotification(message: unknown): message is BackgroundNotification {
+  return isObject(message) && ['updateStarted', 'databaseUpdated', 'updateProgress'].includes(message.type as string);
+}
+
+// Обычный запрос должен ответить быстро; обновление и импорт идут, пока не скачан и не записан весь датасет
+const DEFAULT_TIMEOUT = 15000;
+const REQUEST_TIMEOUTS: Partial<Record<RequestType, number>> = {
+  forceUpdate: 10 * 60 * 1000,
+  loadDatasetVersion: 10 * 60 * 1000,
+  importDatabase: 10 * 60 * 1000,
+  downloadDatabase: 5 * 60 * 1000,
+  checkUpdates: 60 * 1000,
+  listDatasetVersions: 60 * 1000,
+  getDatabasesList: 60 * 1000,
+  exportDatabase: 60 * 1000,
+  clearDatabase: 60 * 1000,
+  testGitHubToken: 30 * 1000
+};
+
+export interface SendOptions {
+  timeoutMs?: number;
+}
+
+/**
+ * Клиент протокола: отправляет запрос в background и возвращает данные успешного ответа.
+ * Ошибка ответа, таймаут и недоступный background - MessageRequestError с соответствующим кодом.
+ */
+export function sendRequest<K extends RequestType>(
+  type: K,
+  ...[data, options]: RequestData<K> extends undefined ? [data?: RequestData<K>, options?: SendOptions] : [data: RequestData<K>, options?: SendOptions]
+): Promise<ResponseData<K>> {
+  const timeoutMs = options?.timeoutMs ?? REQUEST_TIMEOUTS[type] ?? DEFAULT_TIMEOUT;
+
+  return new Promise((resolve, reject) => {
+    if (typeof chrome === 'undefined' || !chrome.runtime?.id) {
+      reject(new MessageRequestError('UNAVAILABLE', 'Extension context invalidated'));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      reject(new MessageRequestError('TIMEOUT', `No response to ${type} within ${timeoutMs} ms`));
+    }, timeoutMs);
+
+    chrome.runtime.sendMessage({ type, data }, (response: MessageResponse<ResponseData<K>> | undefined) => {
+      clearTimeout(timer);
+
+      if (chrome.runtime.lastError) {
+        reject(new MessageRequestError('UNAVAILABLE', chrome.runtime.lastError.message || 'Background is not available'));
+      } else if (!response || typeof response.success !== 'boolean') {
+        reject(new MessageRequestError('INTERNAL', `Malformed response to ${type}`));
+      } else if (response.success) {
+        resolve(response.data);
+      } else {
+        reject(new MessageRequestError(response.error?.code || 'INTERNAL', response.error?.message || 'Unknown error'));
+      }
+    });
+  });
+}
@@ -0,0 +1,137 @@
+import { CardData, StoredCard } from './types';
+import { computeAnimeStats } from './stats';
+
+export const STORES = {
+  cards: 'cards',
+  staging: 'cards_staging',
+  history: 'card_history',
+  anime: 'anime',
+  info: 'info'
+} as const;
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  transaction: IDBTransaction;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  // Миграция меняет вычисляемые поля карт - после всех шагов карты будут пересчитаны один раз
+  rebuildsStoredCards?: boolean;
+  migrate(context: MigrationContext): void;
+}
+
+/**
+ * Упорядоченный список шагов схемы. Каждый шаг выполняется ровно один раз -
+ * при обновлении базы с версии ниже его version. Новые шаги добавляются только в конец.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create cards and info stores',
+    migrate({ db }) {
+      const cardsStore = db.createObjectStore(STORES.cards, { keyPath: 'cardId' });
+      cardsStore.createIndex('cardName', 'cardName', { unique: false });
+      cardsStore.createIndex('animeId', 'animeId', { unique: false });
+      db.createObjectStore(STORES.info, { keyPath: 'key' });
+    }
+  },
+  {
+    version: 2,
+    description: 'Index cards by image URL',
+    migrate({ transaction }) {
+      transaction.objectStore(STORES.cards).createIndex('cardImage', 'cardImage', { unique: false });
+    }
+  },
+  {
+    version: 3,
+    description: 'Create staging store for atomic imports',
+    migrate({ db }) {
+      db.createObjectStore(STORES.staging, { keyPath: 'cardId' });
+    }
+  },
+  {
+    version: 4,
+    description: 'Create per-card stats history store',
+    migrate({ db }) {
+      const historyStore = db.createObjectStore(STORES.history, { keyPath: ['cardId', 'timestamp'] });
+      historyStore.createIndex('timestamp', 'timestamp', { unique: false });
+    }
+  },
+  {
+    version: 5,
+    description: 'Index search tokens for full-text search',
+    rebuildsStoredCards: true,
+    migrate({ transaction }) {
+      transaction.objectStore(STORES.cards).createIndex('searchTokens', 'searchTokens', { unique: false, multiEntry: true });
+    }
+  },
+  {
+    version: 6,
+    description: 'Index normalized image path and file name',
+    rebuildsStoredCards: true,
+    migrate({ transaction }) {
+      const cardsStore = transaction.objectStore(STORES.cards);
+      cardsStore.createIndex('imageKey', 'imageKey', { unique: false });
+      cardsStore.createIndex('imageFileName', 'imageFileName', { unique: false });
+    }
+  },
+  {
+    version: 7,
+    description: 'Create per-anime aggregates store',
+    migrate({ db, transaction }) {
+      db.createObjectStore(STORES.anime, { keyPath: 'animeId' });
+
+      // Считаем агрегаты по уже сохраненным картам, не дожидаясь следующего импорта
+      const cardsRequest = transaction.objectStore(STORES.cards).getAll();
+      cardsRequest.onsuccess = () => {
+        const animeStore = transaction.objectStore(STORES.anime);
+        for (const anime of computeAnimeStats(cardsRequest.result as CardData[])) {
+          animeStore.put(anime);
+        }
+      };
+    }
+  },
+  {
+    version: 8,
+    description: 'Store rank-relative percentiles on cards',
+    // Перцентили считаются при пересчете вычисляемых полей
+    rebuildsStoredCards: true,
+    migrate() {}
+  }
+];
+
+export const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Выполняет все шаги новее oldVersion внутри транзакции onupgradeneeded.
+ */
+export function runMigrations(
+  context: MigrationContext,
+  oldVersion: number,
+  toStoredCards: (cards: CardData[]) => StoredCard[]
+): void {
+  const pending = MIGRATIONS.filter(migration => migration.version > oldVersion);
+  let rebuildStoredCards = false;
+
+  for (const migration of pending) {
+    console.log(`🛠️ Migrating database to v${migration.version}: ${migration.description}`);
+    migration.migrate(context);
+    rebuildStoredCards = rebuildStoredCards || !!migration.rebuildsStoredCards;
+  }
+
+  // На пустой базе пересчитывать нечего
+  if (rebuildStoredCards && oldVersion > 0) {
+    console.log('🛠️ Rebuilding derived card fields...');
+    const cardsStore = context.transaction.objectStore(STORES.cards);
+    const cardsRequest = cardsStore.getAll();
+
+    // Вычисляемые поля зависят от всего набора (перцентили), поэтому читаем карты целиком
+    cardsRequest.onsuccess = () => {
+      for (const card of toStoredCards(cardsRequest.result as CardData[])) {
+        cardsStore.put(card);
+      }
+    };
+  }
+}
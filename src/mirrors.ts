@@ -0,0 +1,80 @@
+import { DatasetFile } from './types';
+
+/**
+ * Шаблоны адресов для загрузки файла датасета, в порядке перебора.
+ * {url} - адрес из листинга, остальные подстановки доступны только для файлов из репозитория GitHub.
+ */
+export const MIRROR_TEMPLATES = [
+  '{url}',
+  'https://cdn.jsdelivr.net/gh/{owner}/{repo}@{ref}/{path}',
+  'https://fastly.jsdelivr.net/gh/{owner}/{repo}@{ref}/{path}'
+];
+
+export interface MirrorCandidate {
+  template: string;
+  url: string;
+  host: string;
+}
+
+/**
+ * Подставляет значения файла в шаблон. Если шаблону нужно значение, которого у файла нет
+ * (например, {owner} для файла с HTTP-сервера), возвращает null.
+ */
+export function expandMirrorTemplate(template: string, file: DatasetFile): string | null {
+  const downloadPath = new URL(file.downloadUrl).pathname;
+  const values: Record<string, string | undefined> = {
+    url: file.downloadUrl,
+    name: encodeURIComponent(decodeURIComponent(downloadPath.substring(downloadPath.lastIndexOf('/') + 1))),
+    owner: file.repository && encodeURIComponent(file.repository.owner),
+    repo: file.repository && encodeURIComponent(file.repository.repo),
+    ref: file.repository && encodeURIComponent(file.repository.ref),
+    path: file.repository?.path.split('/').map(encodeURIComponent).join('/')
+  };
+
+  let missing = false;
+  const url = template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    const value = values[key];
+    if (value === undefined) {
+      missing = true;
+    }
+    return value ?? placeholder;
+  });
+
+  return missing ? null : url;
+}
+
+/**
+ * Список зеркал для файла и запоминание последнего успешного, чтобы в следующий раз начинать с него.
+ */
+export class MirrorService {
+  private static readonly STORAGE_KEY = 'preferredMirror';
+
+  async getCandidates(file: DatasetFile, userTemplate?: string): Promise<MirrorCandidate[]> {
+    const templates = userTemplate ? [...MIRROR_TEMPLATES, userTemplate] : [...MIRROR_TEMPLATES];
+
+    // Последнее сработавшее зеркало пробуем первым
+    const preferred = await this.getPreferredTemplate();
+    if (preferred && templates.includes(preferred)) {
+      templates.splice(templates.indexOf(preferred), 1);
+      templates.unshift(preferred);
+    }
+
+    const candidates: MirrorCandidate[] = [];
+    for (const template of templates) {
+      const url = expandMirrorTemplate(template, file);
+      if (url && !candidates.some(candidate => candidate.url === url)) {
+        candidates.push({ template, url, host: new URL(url).host });
+      }
+    }
+    return candidates;
+  }
+
+  async remember(candidate: MirrorCandidate): Promise<void> {
+    await chrome.storage.local.set({ [MirrorService.STORAGE_KEY]: candidate.template });
+  }
+
+  private async getPreferredTemplate(): Promise<string | null> {
+    const result = await chrome.storage.local.get(MirrorService.STORAGE_KEY);
+    return result[MirrorService.STORAGE_KEY] || null;
+  }
+}
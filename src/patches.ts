@@ -0,0 +1,65 @@
+import { CardData, DatasetPatch, DatasetPayload } from './types';
+
+export const PATCH_FORMAT = 'animestars-cards-patch';
+
+/**
+ * Проверяет структуру патча и то, что он построен от установленного датасета к нужному.
+ */
+export function parsePatch(data: any, fromDataset: string, toDataset: string): DatasetPatch {
+  if (!data || typeof data !== 'object' || data.format !== PATCH_FORMAT) {
+    throw new Error('Unknown patch format');
+  }
+
+  if (data.from !== fromDataset || data.to !== toDataset) {
+    throw new Error(`Patch ${data.from} -> ${data.to} does not match ${fromDataset} -> ${toDataset}`);
+  }
+
+  for (const field of ['added', 'changed', 'removed']) {
+    if (!Array.isArray(data[field])) {
+      throw new Error(`Patch field ${field} must be an array`);
+    }
+  }
+
+  return data as DatasetPatch;
+}
+
+/**
+ * Накладывает патч на текущие карты и возвращает полный набор целевого датасета.
+ * Любое расхождение с текущими данными - ошибка: в этом случае нужно загрузить полный файл.
+ */
+export function applyPatch(currentCards: CardData[], patch: DatasetPatch): DatasetPayload {
+  const cards = new Map<number, unknown>();
+  for (const card of currentCards) {
+    cards.set(card.cardId, card);
+  }
+
+  for (const cardId of patch.removed) {
+    if (!cards.delete(Number(cardId))) {
+      throw new Error(`Patch removes unknown card ${cardId}`);
+    }
+  }
+
+  for (const card of patch.changed) {
+    const cardId = Number((card as any)?.cardId);
+    if (!cards.has(cardId)) {
+      throw new Error(`Patch changes unknown card ${cardId}`);
+    }
+    cards.set(cardId, card);
+  }
+
+  for (const card of patch.added) {
+    const cardId = Number((card as any)?.cardId);
+    if (cards.has(cardId)) {
+      throw new Error(`Patch adds existing card ${cardId}`);
+    }
+    cards.set(cardId, card);
+  }
+
+  // Итоговое число карт должно совпасть с целевым датасетом
+  const expectedTotal = patch.metadata?.total_cards;
+  if (typeof expectedTotal === 'number' && expectedTotal !== cards.size) {
+    throw new Error(`Patched dataset has ${cards.size} cards, expected ${expectedTotal}`);
+  }
+
+  return { metadata: patch.metadata || null, cards: Array.from(cards.values()) };
+}
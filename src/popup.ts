@@ -0,0 +1,767 @@
+import { CardData, DataSourceConfig, ExtensionSettings, RateLimitState, UpdateCheckState, UpdateProgress } from './types';
+import { isBackgroundNotification, MessageRequestError, sendRequest } from './messages';
+
+const byId = <T extends HTMLElement = HTMLElement>(id: string): T => document.getElementById(id) as T;
+
+// Popup script для управления расширением
+class PopupController {
+  private content: HTMLElement;
+  private loading: HTMLElement;
+  private cardsCountElement: HTMLElement;
+  private lastUpdateElement: HTMLElement;
+  private statusTextElement: HTMLElement;
+  private currentFilename: string | null = null;
+  private pinnedVersion: string | null = null;
+
+  constructor() {
+    this.content = byId('content');
+    this.loading = byId('loading');
+    this.cardsCountElement = byId('cardsCount');
+    this.lastUpdateElement = byId('lastUpdate');
+    this.statusTextElement = byId('statusText');
+  }
+
+  async init(): Promise<void> {
+    console.log('🚀 Popup initialized');
+
+    // Загружаем информацию о базе данных
+    await this.loadDatabaseInfo();
+
+    // Загружаем настройки
+    await this.loadSettings();
+
+    // Подписываемся на прогресс обновления базы
+    this.connectProgressPort();
+
+    // Обновление могло быть запущено до открытия popup
+    await this.restoreUpdateJob();
+
+    // Настраиваем обработчики событий
+    this.setupEventHandlers();
+  }
+
+  async loadDatabaseInfo(): Promise<void> {
+    try {
+      const info = await sendRequest('getDatabaseInfo');
+
+      this.cardsCountElement.textContent = info.cardsCount.toString();
+      this.currentFilename = info.filename || null;
+
+      if (info.lastUpdate) {
+        const date = new Date(info.lastUpdate);
+        this.lastUpdateElement.textContent = this.formatDate(date);
+      } else {
+        this.lastUpdateElement.textContent = 'Никогда';
+      }
+
+      this.statusTextElement.textContent = info.mirror
+        ? `База данных готова к использованию (загружена с ${info.mirror})`
+        : 'База данных готова к использованию';
+      this.renderRateLimit(info.rateLimit);
+      this.renderLastCheck(info.lastCheck);
+    } catch (error) {
+      console.error('Error loading database info:', error);
+      this.showError('Не удалось загрузить информацию о базе данных: ' + this.describeError(error));
+    }
+  }
+
+  connectProgressPort(): void {
+    try {
+      const port = chrome.runtime.connect({ name: 'updateProgress' });
+      port.onMessage.addListener((message: unknown) => {
+        if (isBackgroundNotification(message) && message.type === 'updateProgress') {
+          this.renderProgress(message.data);
+        }
+      });
+    } catch (error) {
+      console.error('Error connecting to update progress:', error);
+    }
+  }
+
+  async restoreUpdateJob(): Promise<void> {
+    try {
+      const job = await sendRequest('getUpdateJob');
+      // Очистка базы не сообщает о прогрессе и завершении - индикатор для нее не показываем
+      if (!job || job.kind === 'clear') {
+        return;
+      }
+
+      this.showLoading(true, true);
+      if (job.progress) {
+        this.renderProgress(job.progress);
+      } else {
+        const loadingText = byId('loadingText');
+        if (loadingText) {
+          loadingText.textContent = 'Обновление уже выполняется…';
+        }
+      }
+    } catch (error) {
+      console.error('Error loading update job state:', error);
+    }
+  }
+
+  async cancelUpdate(): Promise<void> {
+    const cancelBtn = byId<HTMLButtonElement>('cancelUpdate');
+    try {
+      cancelBtn.disabled = true;
+      const { cancelled } = await sendRequest('cancelUpdate');
+      if (!cancelled) {
+        // Задание уже завершилось - прогресс 'done'/'failed' скроет индикатор
+        cancelBtn.disabled = false;
+      }
+    } catch (error) {
+      console.error('Error cancelling update:', error);
+      cancelBtn.disabled = false;
+      this.showError('Не удалось отменить обновление: ' + this.describeError(error));
+    }
+  }
+
+  renderProgress(progress: UpdateProgress): void {
+    const loadingText = byId('loadingText');
+
+    if (progress.phase === 'done' || progress.phase === 'failed') {
+      if (loadingText) {
+        loadingText.textContent = 'Обновление базы данных...';
+      }
+      this.hideLoading();
+      this.loadDatabaseInfo();
+      return;
+    }
+
+    let text;
+    if (progress.phase === 'downloading') {
+      text = progress.total
+        ? 'Загрузка ' + Math.min(100, Math.round(progress.loaded / progress.total * 100)) + '%…'
+        : 'Загрузка ' + (progress.loaded / 1024 / 1024).toFixed(1) + ' МБ…';
+    } else if (progress.phase === 'saving') {
+      text = 'Сохранение ' + progress.loaded + '/' + progress.total + '…';
+    } else {
+      text = 'Применение изменений…';
+    }
+
+    // Обновление могло начаться в фоне - показываем прогресс и в этом случае
+    this.showLoading(true, true);
+    if (loadingText) {
+      loadingText.textContent = text;
+    }
+  }
+
+  renderRateLimit(rateLimit: RateLimitState | null): void {
+    const element = byId('rateLimitText');
+    if (!element) {
+      return;
+    }
+
+    if (!rateLimit || !rateLimit.limit) {
+      element.textContent = '';
+      return;
+    }
+
+    const resetAt = new Date(rateLimit.resetAt);
+    if (rateLimit.remaining === 0 && resetAt.getTime() > Date.now()) {
+      element.textContent = 'Лимит GitHub API исчерпан, проверка отложена до ' + resetAt.toLocaleTimeString();
+      element.classList.add('exhausted');
+    } else {
+      element.textContent = 'Запросов к GitHub API: ' + rateLimit.remaining + ' из ' + rateLimit.limit;
+      element.classList.remove('exhausted');
+    }
+  }
+
+  renderLastCheck(lastCheck: UpdateCheckState | null): void {
+    const element = byId('lastCheckText');
+    if (!element) {
+      return;
+    }
+
+    if (!lastCheck) {
+      element.textContent = '';
+      return;
+    }
+
+    const outcomes: Record<string, string> = {
+      updated: 'база обновлена',
+      upToDate: 'обновлений нет',
+      failed: 'ошибка',
+      deferred: 'отложена'
+    };
+    let text = 'Последняя проверка: ' + this.formatDate(new Date(lastCheck.lastCheckAt)) + ', ' + (outcomes[lastCheck.outcome] || lastCheck.outcome);
+    if (lastCheck.nextCheckAt) {
+      text += '. Следующая: ' + new Date(lastCheck.nextCheckAt).toLocaleString('ru-RU', {
+        day: 'numeric',
+        month: 'short',
+        hour: '2-digit',
+        minute: '2-digit'
+      });
+    }
+    element.textContent = text;
+    element.title = lastCheck.error || '';
+  }
+
+  async loadSettings(): Promise<void> {
+    try {
+      this.fillSettingsForm(await sendRequest('getSettings'));
+    } catch (error) {
+      console.error('Error loading settings:', error);
+    }
+  }
+
+  fillSettingsForm(settings: ExtensionSettings): void {
+    byId<HTMLInputElement>('historyRetentionDays').value = String(settings.historyRetentionDays);
+    byId<HTMLInputElement>('updateIntervalHours').value = String(settings.updateIntervalHours);
+
+    const source = settings.dataSource;
+    byId<HTMLSelectElement>('dataSourceType').value = source.type;
+    byId<HTMLInputElement>('sourceOwner').value = source.type === 'github' ? source.owner : '';
+    byId<HTMLInputElement>('sourceRepo').value = source.type === 'github' ? source.repo : '';
+    byId<HTMLInputElement>('sourcePath').value = source.type === 'github' ? source.path : '';
+    byId<HTMLInputElement>('sourceBranch').value = source.type === 'github' ? source.branch || '' : '';
+    byId<HTMLInputElement>('sourceManifestUrl').value = source.type === 'http' ? source.manifestUrl : '';
+    byId<HTMLInputElement>('sourceUrl').value = source.type === 'url' ? source.url : '';
+    byId<HTMLInputElement>('releaseOwner').value = source.type === 'release' ? source.owner : '';
+    byId<HTMLInputElement>('releaseRepo').value = source.type === 'release' ? source.repo : '';
+    byId<HTMLInputElement>('releaseAssetPattern').value = source.type === 'release' ? source.assetPattern : '';
+    byId<HTMLInputElement>('githubToken').value = settings.githubToken || '';
+    byId<HTMLInputElement>('mirrorTemplate').value = settings.mirrorTemplate || '';
+    this.updateSourceFields();
+    this.renderPinnedVersion(settings.pinnedVersion);
+  }
+
+  updateSourceFields(): void {
+    const type = byId<HTMLSelectElement>('dataSourceType').value;
+    document.querySelectorAll<HTMLElement>('.source-fields').forEach(element => {
+      element.classList.toggle('active', element.dataset.source === type);
+    });
+  }
+
+  readDataSource(): DataSourceConfig {
+    const type = byId<HTMLSelectElement>('dataSourceType').value;
+    const value = (id: string) => byId<HTMLInputElement>(id).value.trim();
+
+    switch (type) {
+      case 'http':
+        return { type, manifestUrl: value('sourceManifestUrl') };
+      case 'url':
+        return { type, url: value('sourceUrl') };
+      case 'release':
+        return {
+          type,
+          owner: value('releaseOwner'),
+          repo: value('releaseRepo'),
+          assetPattern: value('releaseAssetPattern')
+        };
+      default:
+        return {
+          type: 'github',
+          owner: value('sourceOwner'),
+          repo: value('sourceRepo'),
+          path: value('sourcePath'),
+          branch: value('sourceBranch')
+        };
+    }
+  }
+
+  // Для сторонних серверов и своего зеркала нужен доступ к их origin - запрашиваем его у пользователя
+  async requestSourcePermission(dataSource: DataSourceConfig, mirrorTemplate: string): Promise<boolean> {
+    const url = dataSource.type === 'http' ? dataSource.manifestUrl : dataSource.type === 'url' ? dataSource.url : null;
+    const origins: string[] = [];
+
+    try {
+      if (url) {
+        origins.push(`${new URL(url).origin}/*`);
+      }
+      if (mirrorTemplate) {
+        origins.push(`${new URL(mirrorTemplate.replace(/\{\w+\}/g, 'placeholder')).origin}/*`);
+      }
+    } catch (error) {
+      this.showError('Некорректная ссылка на источник данных или зеркало');
+      return false;
+    }
+
+    return origins.length === 0 || chrome.permissions.request({ origins });
+  }
+
+  renderPinnedVersion(pinnedVersion: string | null): void {
+    this.pinnedVersion = pinnedVersion;
+    byId('pinnedVersionText').textContent = pinnedVersion
+      ? 'Закреплена версия ' + pinnedVersion + ', автообновление отключено'
+      : 'Автообновление включено';
+    byId<HTMLButtonElement>('unpinVersion').disabled = !pinnedVersion;
+  }
+
+  async loadVersions(): Promise<void> {
+    try {
+      const versions = await sendRequest('listDatasetVersions');
+
+      const select = byId<HTMLSelectElement>('datasetVersions');
+      select.innerHTML = '';
+
+      if (versions.length === 0) {
+        select.appendChild(new Option('Версии не найдены', ''));
+        return;
+      }
+
+      for (const version of versions) {
+        const date = new Date(parseInt(version.timestamp, 10) * 1000).toLocaleString('ru-RU');
+        let label = date;
+        if (version.filename === this.currentFilename) {
+          label += ' (текущая)';
+        } else if (version.version === this.pinnedVersion || version.filename === this.pinnedVersion) {
+          label += ' (закреплена)';
+        }
+        select.appendChild(new Option(label, version.filename));
+      }
+    } catch (error) {
+      console.error('Error loading dataset versions:', error);
+      this.showError('Ошибка загрузки списка версий: ' + this.describeError(error));
+    }
+  }
+
+  async loadSelectedVersion(): Promise<void> {
+    const filename = byId<HTMLSelectElement>('datasetVersions').value;
+    if (!filename) {
+      this.showError('Сначала выберите версию базы');
+      return;
+    }
+
+    try {
+      this.showLoading(true, true);
+      const pin = byId<HTMLInputElement>('pinVersion').checked;
+      const result = await sendRequest('loadDatasetVersion', { filename, pin });
+
+      this.showSuccess('Загружена версия ' + filename + ': ' + result.cardsCount + ' карт' + (pin ? ' (закреплена)' : ''));
+      await this.loadDatabaseInfo();
+      await this.loadSettings();
+    } catch (error) {
+      console.error('Error loading dataset version:', error);
+      this.showError('Ошибка загрузки версии: ' + this.describeError(error));
+    } finally {
+      this.hideLoading();
+    }
+  }
+
+  async unpinVersion(): Promise<void> {
+    try {
+      const settings = await sendRequest('updateSettings', { pinnedVersion: null });
+      this.renderPinnedVersion(settings.pinnedVersion);
+      this.showSuccess('Версия откреплена, база обновится до последней');
+    } catch (error) {
+      console.error('Error unpinning version:', error);
+      this.showError('Не удалось открепить версию: ' + this.describeError(error));
+    }
+  }
+
+  async testGitHubToken(): Promise<void> {
+    try {
+      const token = byId<HTMLInputElement>('githubToken').value.trim();
+      const { authenticated, rateLimit } = await sendRequest('testGitHubToken', { token });
+
+      const prefix = authenticated ? 'Токен принят' : 'Без токена';
+      this.showSuccess(prefix + ': лимит ' + rateLimit.limit + ' запросов в час, осталось ' + rateLimit.remaining);
+    } catch (error) {
+      console.error('Error testing GitHub token:', error);
+      this.showError('Ошибка проверки токена: ' + this.describeError(error));
+    }
+  }
+
+  async saveSettings(): Promise<void> {
+    try {
+      // Пустое числовое поле не отправляем - background оставит сохраненное значение
+      const number = (id: string) => {
+        const value = parseInt(byId<HTMLInputElement>(id).value, 10);
+        return Number.isFinite(value) ? value : undefined;
+      };
+      const settings = {
+        historyRetentionDays: number('historyRetentionDays'),
+        updateIntervalHours: number('updateIntervalHours'),
+        dataSource: this.readDataSource(),
+        githubToken: byId<HTMLInputElement>('githubToken').value.trim(),
+        mirrorTemplate: byId<HTMLInputElement>('mirrorTemplate').value.trim()
+      };
+
+      // Запрос разрешения должен идти первым, пока действует жест пользователя
+      const granted = await this.requestSourcePermission(settings.dataSource, settings.mirrorTemplate);
+      if (!granted) {
+        this.showError('Нет доступа к серверу источника данных');
+        return;
+      }
+
+      this.fillSettingsForm(await sendRequest('updateSettings', settings));
+      this.showSuccess('Настройки сохранены');
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      this.showError('Ошибка сохранения настроек: ' + this.describeError(error));
+    }
+  }
+
+  setupEventHandlers(): void {
+    const checkUpdatesBtn = byId('checkUpdates');
+    if (checkUpdatesBtn) {
+      checkUpdatesBtn.addEventListener('click', async () => {
+        await this.checkForUpdates();
+      });
+    }
+
+    const forceUpdateBtn = byId('forceUpdate');
+    if (forceUpdateBtn) {
+      forceUpdateBtn.addEventListener('click', async () => {
+        await this.forceUpdate();
+      });
+    }
+
+    const cancelUpdateBtn = byId('cancelUpdate');
+    if (cancelUpdateBtn) {
+      cancelUpdateBtn.addEventListener('click', async () => {
+        await this.cancelUpdate();
+      });
+    }
+
+    const clearDatabaseBtn = byId('clearDatabase');
+    if (clearDatabaseBtn) {
+      clearDatabaseBtn.addEventListener('click', async () => {
+        if (confirm('Вы уверены, что хотите очистить базу данных? Это действие нельзя отменить.')) {
+          await this.clearDatabase();
+        }
+      });
+    }
+
+    const exportJsonBtn = byId('exportJson');
+    if (exportJsonBtn) {
+      exportJsonBtn.addEventListener('click', async () => {
+        await this.exportDatabase('json');
+      });
+    }
+
+    const exportCsvBtn = byId('exportCsv');
+    if (exportCsvBtn) {
+      exportCsvBtn.addEventListener('click', async () => {
+        await this.exportDatabase('csv');
+      });
+    }
+
+    const importFileBtn = byId('importFile');
+    const importFileInput = byId<HTMLInputElement>('importFileInput');
+    if (importFileBtn && importFileInput) {
+      importFileBtn.addEventListener('click', () => {
+        importFileInput.value = '';
+        importFileInput.click();
+      });
+      importFileInput.addEventListener('change', async () => {
+        if (importFileInput.files && importFileInput.files[0]) {
+          await this.importDatabase(importFileInput.files[0]);
+        }
+      });
+    }
+
+    const dataSourceType = byId('dataSourceType');
+    if (dataSourceType) {
+      dataSourceType.addEventListener('change', () => this.updateSourceFields());
+    }
+
+    const loadVersionsBtn = byId('loadVersions');
+    if (loadVersionsBtn) {
+      loadVersionsBtn.addEventListener('click', async () => {
+        await this.loadVersions();
+      });
+    }
+
+    const loadSelectedVersionBtn = byId('loadSelectedVersion');
+    if (loadSelectedVersionBtn) {
+      loadSelectedVersionBtn.addEventListener('click', async () => {
+        await this.loadSelectedVersion();
+      });
+    }
+
+    const unpinVersionBtn = byId('unpinVersion');
+    if (unpinVersionBtn) {
+      unpinVersionBtn.addEventListener('click', async () => {
+        await this.unpinVersion();
+      });
+    }
+
+    const testGitHubTokenBtn = byId('testGitHubToken');
+    if (testGitHubTokenBtn) {
+      testGitHubTokenBtn.addEventListener('click', async () => {
+        await this.testGitHubToken();
+      });
+    }
+
+    const saveSettingsBtn = byId('saveSettings');
+    if (saveSettingsBtn) {
+      saveSettingsBtn.addEventListener('click', async () => {
+        await this.saveSettings();
+      });
+    }
+
+    const openGitHubBtn = byId('openGitHub');
+    if (openGitHubBtn) {
+      openGitHubBtn.addEventListener('click', () => {
+        chrome.tabs.create({
+          url: 'https://github.com/hantYT/animestars-card-stats-ext'
+        });
+      });
+    }
+  }
+
+  async checkForUpdates(): Promise<void> {
+    try {
+      this.showLoading(false);
+      this.statusTextElement.textContent = 'Проверка обновлений...';
+
+      const { needsUpdate } = await sendRequest('checkUpdates');
+
+      if (needsUpdate) {
+        this.statusTextElement.textContent = 'Доступно обновление базы данных';
+        this.showSuccess('Найдено обновление! Нажмите "Принудительное обновление"');
+      } else {
+        this.statusTextElement.textContent = 'База данных актуальна';
+        this.showSuccess('База данных уже актуальна');
+      }
+    } catch (error) {
+      console.error('Error checking updates:', error);
+      this.showError('Ошибка проверки обновлений: ' + this.describeError(error));
+    }
+  }
+
+  async forceUpdate(): Promise<void> {
+    try {
+      this.showLoading(true, true);
+
+      const result = await sendRequest('forceUpdate');
+
+      if (result.notModified) {
+        this.showSuccess('Файл базы не изменился, загрузка не потребовалась');
+        await this.loadDatabaseInfo();
+      } else {
+        let message = 'База данных обновлена: ' + result.cardsCount + ' карт';
+        if (result.changes) {
+          message += ' (+' + result.changes.added + ', изменено ' + result.changes.changed + ', удалено ' + result.changes.removed + ')';
+        }
+        if (result.patch) {
+          message += ', применен патч ' + result.patch;
+        }
+        if (result.quarantined) {
+          message += '. Пропущено некорректных записей: ' + result.quarantined;
+        }
+        this.showSuccess(message);
+
+        // Обновляем информацию в интерфейсе
+        await this.loadDatabaseInfo();
+      }
+    } catch (error) {
+      console.error('Error force updating:', error);
+      this.showError('Ошибка обновления: ' + this.describeError(error));
+    } finally {
+      this.hideLoading();
+    }
+  }
+
+  async exportDatabase(format: 'json' | 'csv'): Promise<void> {
+    try {
+      this.showLoading(false);
+      this.statusTextElement.textContent = 'Экспорт базы данных...';
+
+      const exportData = await sendRequest('exportDatabase');
+      const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+
+      if (format === 'csv') {
+        this.downloadFile('animestars_export_' + stamp + '.csv', this.toCsv(exportData.cards), 'text/csv;charset=utf-8');
+      } else {
+        this.downloadFile('animestars_export_' + stamp + '.json', JSON.stringify(exportData), 'application/json');
+      }
+
+      this.statusTextElement.textContent = 'База данных готова к использованию';
+      this.showSuccess('Экспортировано карт: ' + exportData.cards.length);
+    } catch (error) {
+      console.error('Error exporting database:', error);
+      this.showError('Ошибка экспорта: ' + this.describeError(error));
+    }
+  }
+
+  async importDatabase(file: File): Promise<void> {
+    try {
+      this.showLoading(true, true);
+
+      let content;
+      try {
+        content = JSON.parse(await file.text());
+      } catch (parseError) {
+        this.showError('Файл не является корректным JSON');
+        return;
+      }
+
+      const result = await sendRequest('importDatabase', { content: content, fileName: file.name });
+
+      let message = 'Импортировано ' + result.cardsCount + ' карт';
+      if (result.changes) {
+        message += ' (+' + result.changes.added + ', изменено ' + result.changes.changed + ', удалено ' + result.changes.removed + ')';
+      }
+      if (result.quarantined) {
+        message += '. Пропущено некорректных записей: ' + result.quarantined;
+      }
+      this.showSuccess(message);
+      await this.loadDatabaseInfo();
+    } catch (error) {
+      console.error('Error importing database:', error);
+      this.showError('Ошибка импорта: ' + this.describeError(error));
+    } finally {
+      this.hideLoading();
+    }
+  }
+
+  toCsv(cards: CardData[]): string {
+    const columns: (keyof CardData)[] = [
+      'cardId', 'cardName', 'cardRank', 'cardImage', 'cardmp4', 'cardwebm', 'cardAuthor',
+      'animeLink', 'animeName', 'cardLink', 'animeId', 'users', 'need', 'trade', 'lastUpdate'
+    ];
+
+    const escape = (value: unknown) => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return /[",\n\r]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+    };
+
+    const lines = [columns.join(',')];
+    cards.forEach(card => {
+      lines.push(columns.map(column => escape(card[column])).join(','));
+    });
+
+    // BOM нужен, чтобы Excel правильно распознал кириллицу
+    return '\uFEFF' + lines.join('\r\n');
+  }
+
+  downloadFile(fileName: string, content: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  async clearDatabase(): Promise<void> {
+    try {
+      this.showLoading(true);
+      this.statusTextElement.textContent = 'Очистка базы данных...';
+
+      await sendRequest('clearDatabase');
+      this.showSuccess('База данных очищена');
+
+      // Обновляем информацию в интерфейсе
+      await this.loadDatabaseInfo();
+    } catch (error) {
+      console.error('Error clearing database:', error);
+      this.showError('Ошибка очистки: ' + this.describeError(error));
+    } finally {
+      this.hideLoading();
+    }
+  }
+
+  showLoading(hideContent: boolean = false, cancellable: boolean = false): void {
+    this.loading.classList.add('active');
+    this.loading.classList.toggle('cancellable', cancellable);
+    if (hideContent) {
+      this.content.style.display = 'none';
+    }
+  }
+
+  hideLoading(): void {
+    this.loading.classList.remove('active', 'cancellable');
+    this.content.style.display = 'block';
+    const cancelBtn = byId<HTMLButtonElement>('cancelUpdate');
+    if (cancelBtn) {
+      cancelBtn.disabled = false;
+    }
+  }
+
+  showError(message: string): void {
+    this.hideLoading();
+    this.removeMessages();
+
+    const errorDiv = document.createElement('div');
+    errorDiv.className = 'error';
+    errorDiv.textContent = message;
+
+    this.content.insertBefore(errorDiv, this.content.firstChild);
+
+    // Удаляем сообщение через 5 секунд
+    setTimeout(() => {
+      if (errorDiv.parentNode) {
+        errorDiv.parentNode.removeChild(errorDiv);
+      }
+    }, 5000);
+  }
+
+  showSuccess(message: string): void {
+    this.hideLoading();
+    this.removeMessages();
+
+    const successDiv = document.createElement('div');
+    successDiv.className = 'success';
+    successDiv.textContent = message;
+
+    this.content.insertBefore(successDiv, this.content.firstChild);
+
+    // Удаляем сообщение через 3 секунды
+    setTimeout(() => {
+      if (successDiv.parentNode) {
+        successDiv.parentNode.removeChild(successDiv);
+      }
+    }, 3000);
+  }
+
+  removeMessages(): void {
+    const messages = this.content.querySelectorAll('.error, .success');
+    messages.forEach(msg => {
+      if (msg.parentNode) {
+        msg.parentNode.removeChild(msg);
+      }
+    });
+  }
+
+  // Текст ошибки для пользователя: для ошибок связи с background - понятное описание вместо технического
+  describeError(error: unknown): string {
+    if (error instanceof MessageRequestError) {
+      switch (error.code) {
+        case 'TIMEOUT':
+          return 'фоновый процесс не ответил вовремя';
+        case 'UNAVAILABLE':
+          return 'фоновый процесс недоступен';
+        case 'RATE_LIMITED':
+          return 'исчерпан лимит GitHub API';
+        case 'CANCELLED':
+          return 'обновление отменено';
+      }
+    }
+    return error instanceof Error ? error.message : 'Неизвестная ошибка';
+  }
+
+  formatDate(date: Date): string {
+    const now = new Date();
+    const diffMs = now.getTime() - date.getTime();
+    const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
+    const diffDays = Math.floor(diffHours / 24);
+
+    if (diffHours < 1) {
+      return 'Только что';
+    } else if (diffHours < 24) {
+      return diffHours + ' ч. назад';
+    } else if (diffDays === 1) {
+      return 'Вчера';
+    } else if (diffDays < 7) {
+      return diffDays + ' дн. назад';
+    } else {
+      return date.toLocaleDateString('ru-RU', {
+        day: '2-digit',
+        month: '2-digit',
+        year: '2-digit'
+      });
+    }
+  }
+}
+
+// Инициализация popup при загрузке
+document.addEventListener('DOMContentLoaded', () => {
+  const popup = new PopupController();
+  popup.init().catch(console.error);
+});
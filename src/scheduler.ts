@@ -0,0 +1,86 @@
+import { UpdateCheckOutcome, UpdateCheckState } from './types';
+
+/**
+ * Расписание проверок обновлений через chrome.alarms.
+ * Service worker MV3 выгружается после простоя, поэтому ни таймеры, ни время последней проверки
+ * нельзя держать в памяти: будильник переживает выгрузку, а состояние хранится в chrome.storage.
+ */
+export class UpdateScheduler {
+  static readonly ALARM_NAME = 'checkForUpdates';
+  private static readonly STORAGE_KEY = 'updateCheck';
+  // Будильник может сработать чуть раньше - такую проверку не считаем преждевременной
+  private static readonly TOLERANCE = 60 * 1000;
+
+  /**
+   * Ставит периодический будильник. Первое срабатывание считается от последней проверки,
+   * чтобы перезапуск worker'а или смена интервала не сдвигали расписание.
+   */
+  async schedule(intervalHours: number): Promise<void> {
+    const periodInMinutes = intervalHours * 60;
+    const alarm = await chrome.alarms.get(UpdateScheduler.ALARM_NAME);
+    if (alarm && alarm.periodInMinutes === periodInMinutes) {
+      return;
+    }
+
+    const state = await this.getState();
+    const dueAt = state ? state.lastCheckAt + periodInMinutes * 60 * 1000 : Date.now();
+    await this.setAlarm(Math.max(dueAt, Date.now() + UpdateScheduler.TOLERANCE), periodInMinutes);
+  }
+
+  /**
+   * Переносит ближайшую проверку (например, на сброс лимита GitHub API), дальше - по интервалу.
+   * Отложенная проверка проверкой не считается: время последней проверки не меняется,
+   * а будильник после checkAt считается плановым независимо от интервала.
+   */
+  async deferUntil(checkAt: number, intervalHours: number, reason: string): Promise<void> {
+    await this.setAlarm(checkAt, intervalHours * 60);
+
+    const previous = await this.getState();
+    await this.saveState({
+      lastCheckAt: previous?.lastCheckAt ?? Date.now(),
+      outcome: 'deferred',
+      error: reason,
+      deferredUntil: checkAt
+    });
+  }
+
+  async isDue(intervalHours: number): Promise<boolean> {
+    const state = await this.getState();
+    if (!state) {
+      return true;
+    }
+
+    if (state.deferredUntil && Date.now() >= state.deferredUntil - UpdateScheduler.TOLERANCE) {
+      return true;
+    }
+    return Date.now() - state.lastCheckAt >= intervalHours * 60 * 60 * 1000 - UpdateScheduler.TOLERANCE;
+  }
+
+  async recordCheck(outcome: Exclude<UpdateCheckOutcome, 'deferred'>, error?: string): Promise<void> {
+    await this.saveState({ lastCheckAt: Date.now(), outcome, ...(error ? { error } : {}) });
+  }
+
+  async getState(): Promise<UpdateCheckState | null> {
+    const result = await chrome.storage.local.get(UpdateScheduler.STORAGE_KEY);
+    const state: UpdateCheckState | undefined = result[UpdateScheduler.STORAGE_KEY];
+    if (!state) {
+      return null;
+    }
+
+    // Время следующей проверки берем у будильника - он мог быть переставлен после записи
+    const alarm = await chrome.alarms.get(UpdateScheduler.ALARM_NAME);
+    return alarm ? { ...state, nextCheckAt: alarm.scheduledTime } : state;
+  }
+
+  private async saveState(state: UpdateCheckState): Promise<void> {
+    const alarm = await chrome.alarms.get(UpdateScheduler.ALARM_NAME);
+    await chrome.storage.local.set({
+      [UpdateScheduler.STORAGE_KEY]: alarm ? { ...state, nextCheckAt: alarm.scheduledTime } : state
+    });
+  }
+
+  private async setAlarm(when: number, periodInMinutes: number): Promise<void> {
+    await chrome.alarms.create(UpdateScheduler.ALARM_NAME, { when, periodInMinutes });
+    console.log(`⏰ Next update check at ${new Date(when).toLocaleString()}, then every ${periodInMinutes / 60} h`);
+  }
+}
@@ -0,0 +1,95 @@
+import { DataSourceConfig, ExtensionSettings } from './types';
+
+export class SettingsService {
+  private static readonly STORAGE_KEY = 'settings';
+  static readonly DEFAULT_ASSET_PATTERN = 'animestars_*.json';
+
+  static readonly DEFAULTS: ExtensionSettings = {
+    historyRetentionDays: 90,
+    dataSource: {
+      type: 'github',
+      owner: 'hantYT',
+      repo: 'animestars_cards_datasets',
+      path: 'databases'
+    },
+    githubToken: '',
+    pinnedVersion: null,
+    mirrorTemplate: '',
+    updateIntervalHours: 2
+  };
+
+  async getSettings(): Promise<ExtensionSettings> {
+    const result = await chrome.storage.local.get(SettingsService.STORAGE_KEY);
+    return { ...SettingsService.DEFAULTS, ...(result[SettingsService.STORAGE_KEY] || {}) };
+  }
+
+  async updateSettings(patch: Partial<ExtensionSettings>): Promise<ExtensionSettings> {
+    const current = await this.getSettings();
+    const next = { ...current, ...patch };
+
+    // Приводим числовые значения к допустимым границам
+    next.historyRetentionDays = Math.max(1, Math.round(Number(next.historyRetentionDays) || SettingsService.DEFAULTS.historyRetentionDays));
+    next.updateIntervalHours = Math.min(168, Math.max(1, Math.round(Number(next.updateIntervalHours) || SettingsService.DEFAULTS.updateIntervalHours)));
+
+    next.dataSource = SettingsService.normalizeDataSource(next.dataSource);
+    next.githubToken = typeof next.githubToken === 'string' ? next.githubToken.trim() : '';
+    next.pinnedVersion = typeof next.pinnedVersion === 'string' && next.pinnedVersion.trim() ? next.pinnedVersion.trim() : null;
+    next.mirrorTemplate = SettingsService.normalizeMirrorTemplate(next.mirrorTemplate);
+
+    await chrome.storage.local.set({ [SettingsService.STORAGE_KEY]: next });
+    // Токен в лог не выводим
+    console.log('⚙️ Settings updated:', { ...next, githubToken: next.githubToken ? '***' : '' });
+    return next;
+  }
+
+  /**
+   * Проверяет конфигурацию источника. Некорректный источник не сохраняем,
+   * чтобы фоновые проверки не остались без данных.
+   */
+  static normalizeDataSource(source: any): DataSourceConfig {
+    const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+    switch (source?.type) {
+      case 'github': {
+        const owner = text(source.owner);
+        const repo = text(source.repo);
+        if (!owner || !repo) {
+          throw new Error('GitHub source requires owner and repo');
+        }
+        const branch = text(source.branch);
+        return { type: 'github', owner, repo, path: text(source.path).replace(/^\/+|\/+$/g, ''), ...(branch ? { branch } : {}) };
+      }
+      case 'http':
+        return { type: 'http', manifestUrl: SettingsService.normalizeUrl(source.manifestUrl) };
+      case 'url':
+        return { type: 'url', url: SettingsService.normalizeUrl(source.url) };
+      case 'release': {
+        const owner = text(source.owner);
+        const repo = text(source.repo);
+        if (!owner || !repo) {
+          throw new Error('GitHub release source requires owner and repo');
+        }
+        return { type: 'release', owner, repo, assetPattern: text(source.assetPattern) || SettingsService.DEFAULT_ASSET_PATTERN };
+      }
+      default:
+        throw new Error(`Unknown data source type: ${source?.type}`);
+    }
+  }
+
+  private static normalizeMirrorTemplate(value: unknown): string {
+    const template = typeof value === 'string' ? value.trim() : '';
+    if (template) {
+      // Проверяем, что после подстановки получится http(s)-адрес
+      SettingsService.normalizeUrl(template.replace(/\{\w+\}/g, 'placeholder'));
+    }
+    return template;
+  }
+
+  private static normalizeUrl(value: unknown): string {
+    const url = new URL(typeof value === 'string' ? value.trim() : '');
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error(`Unsupported URL protocol: ${url.protocol}`);
+    }
+    return url.href;
+  }
+}
@@ -0,0 +1,434 @@
+import { DataSourceConfig, DatasetCompression, DatasetFile, GitHubAsset, GitHubRelease, RepositoryLocation } from './types';
+import { HttpCache, RateLimitError, withGitHubAuth } from './http';
+
+const COMPRESSED_EXTENSIONS: Record<string, DatasetCompression> = {
+  '.gz': 'gzip',
+  '.br': 'brotli'
+};
+
+const JSON_FILE_NAME = /\.json(\.gz|\.br)?$/;
+
+// Имена файлов датасета в репозитории: animestars_20250913_210218.json (и старый animestars_cards_*.json),
+// а также их сжатые варианты .json.gz / .json.br
+export function isDatasetFileName(name: string): boolean {
+  return name.startsWith('animestars_') && !isPatchFileName(name) && JSON_FILE_NAME.test(name);
+}
+
+// Патч между двумя датасетами: animestars_patch_<from>_to_<to>.json, где <from>/<to> - имена датасетов
+// без префикса animestars_ и расширения (animestars_patch_20250913_210218_to_20250914_090000.json)
+export function isPatchFileName(name: string): boolean {
+  return /^animestars_patch_.+_to_.+\.json(\.gz|\.br)?$/.test(name);
+}
+
+export function getPatchFileName(fromDataset: string, toDataset: string): string | null {
+  const stem = (name: string) => name.match(/^animestars_(.+)\.json$/)?.[1];
+  const from = stem(fromDataset);
+  const to = stem(toDataset);
+  return from && to ? `animestars_patch_${from}_to_${to}.json` : null;
+}
+
+// Файл контрольной суммы JSON-файла (датасета или патча): <имя>.json.sha256 (формат sha256sum)
+export function isChecksumFileName(name: string): boolean {
+  return name.endsWith('.sha256') && JSON_FILE_NAME.test(name.slice(0, -'.sha256'.length));
+}
+
+// Все файлы, которые источник отдает в листинге
+function isListedFileName(name: string): boolean {
+  return isDatasetFileName(name) || isPatchFileName(name) || isChecksumFileName(name);
+}
+
+/**
+ * Привязывает файлы контрольных сумм к файлам с тем же именем и убирает их из списка.
+ */
+export function attachChecksumFiles(files: DatasetFile[]): DatasetFile[] {
+  const checksums = new Map<string, string>();
+  for (const file of files) {
+    if (isChecksumFileName(file.name)) {
+      checksums.set(file.name.slice(0, -'.sha256'.length), file.downloadUrl);
+    }
+  }
+
+  return files
+    .filter(file => !isChecksumFileName(file.name))
+    .map(file => checksums.has(file.name) ? { ...file, checksumUrl: checksums.get(file.name) } : file);
+}
+
+export function parseDatasetFileName(name: string): { baseName: string; compression?: DatasetCompression } {
+  const match = name.match(/^(.*\.json)(\.gz|\.br)$/);
+  return match ? { baseName: match[1], compression: COMPRESSED_EXTENSIONS[match[2]] } : { baseName: name };
+}
+
+/**
+ * Сводит варианты одного датасета к одной записи: берет первый поддерживаемый сжатый вариант
+ * из supported, несжатый файл остается запасным. Если поддерживаемого сжатого варианта нет -
+ * используется несжатый.
+ */
+export function selectPreferredVariants(files: DatasetFile[], supported: DatasetCompression[]): DatasetFile[] {
+  const variants = new Map<string, Map<DatasetCompression | 'none', DatasetFile>>();
+
+  for (const file of files) {
+    const { baseName, compression } = parseDatasetFileName(file.name);
+    if (!variants.has(baseName)) {
+      variants.set(baseName, new Map());
+    }
+    variants.get(baseName)!.set(compression || 'none', { ...file, name: baseName, compression });
+  }
+
+  const selected: DatasetFile[] = [];
+  for (const byCompression of variants.values()) {
+    const plain = byCompression.get('none');
+    const compression = supported.find(candidate => byCompression.has(candidate));
+
+    if (compression) {
+      selected.push({ ...byCompression.get(compression)!, fallback: plain });
+    } else if (plain) {
+      selected.push(plain);
+    }
+  }
+  return selected;
+}
+
+/**
+ * Источник датасетов: умеет перечислить доступные файлы.
+ * Загрузка идет по downloadUrl из списка, поэтому выбор источника влияет только на листинг.
+ */
+export interface DatasetSource {
+  // Короткое описание для логов и popup
+  readonly description: string;
+  // Датасеты вместе с патчами и файлами контрольных сумм
+  listDatasets(): Promise<DatasetFile[]>;
+}
+
+/**
+ * Папка в репозитории GitHub через contents API (поведение по умолчанию).
+ * Если API недоступен, список берется у jsDelivr.
+ */
+export class GitHubContentsSource implements DatasetSource {
+  private static readonly API_BASE = 'https://api.github.com';
+  private static readonly JSDELIVR_API = 'https://data.jsdelivr.com/v1/packages/gh';
+  private static readonly LISTING_TIMEOUT = 15000;
+
+  constructor(
+    private readonly owner: string,
+    private readonly repo: string,
+    private readonly path: string,
+    private readonly branch?: string,
+    private readonly token?: string
+  ) {}
+
+  get description(): string {
+    return `github:${this.owner}/${this.repo}/${this.path}${this.branch ? `@${this.branch}` : ''}`;
+  }
+
+  async listDatasets(): Promise<DatasetFile[]> {
+    try {
+      return await this.listViaContentsApi();
+    } catch (error) {
+      // На jsDelivr лимит GitHub API не распространяется, поэтому идем туда и при исчерпанном лимите
+      console.warn('⚠️ GitHub contents API unavailable, trying jsDelivr listing:', error);
+      try {
+        return await this.listViaJsDelivr();
+      } catch (fallbackError) {
+        // Оба листинга недоступны: исчерпанный лимит отдаем наверх - проверка будет отложена до его сброса
+        if (error instanceof RateLimitError) {
+          console.warn('⚠️ jsDelivr listing failed as well:', fallbackError);
+          throw error;
+        }
+        throw fallbackError;
+      }
+    }
+  }
+
+  private async listViaContentsApi(): Promise<DatasetFile[]> {
+    const path = this.path.split('/').filter(Boolean).map(encodeURIComponent).join('/');
+    let apiUrl = `${GitHubContentsSource.API_BASE}/repos/${encodeURIComponent(this.owner)}/${encodeURIComponent(this.repo)}/contents/${path}`;
+    if (this.branch) {
+      apiUrl += `?ref=${encodeURIComponent(this.branch)}`;
+    }
+
+    console.log('Getting databases list from:', apiUrl);
+    const init = {
+      headers: withGitHubAuth(apiUrl, {
+        'Accept': 'application/vnd.github.v3+json',
+        'User-Agent': 'AnimestarsCards-Extension'
+      }, this.token),
+      signal: AbortSignal.timeout(GitHubContentsSource.LISTING_TIMEOUT)
+    };
+
+    // Листинг запрашивается условно: 304 не расходует лимит GitHub API
+    return new HttpCache().fetch(apiUrl, init, async response => {
+      if (!response.ok) {
+        if (response.status === 404) {
+          console.log('Databases folder not found');
+          return [];
+        }
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const files = await response.json();
+      if (!Array.isArray(files)) {
+        throw new Error(`GitHub path ${this.path} is not a directory`);
+      }
+
+      return files
+        .filter((file: any) => file.type === 'file' && isListedFileName(file.name))
+        .map((file: any): DatasetFile => ({
+          name: file.name,
+          downloadUrl: file.download_url,
+          size: file.size,
+          sha: file.sha,
+          repository: this.getLocation(file.path, file.download_url)
+        }));
+    });
+  }
+
+  /**
+   * Листинг через API jsDelivr. Ветка по умолчанию для него неизвестна, поэтому без явной ветки берется main.
+   */
+  private async listViaJsDelivr(): Promise<DatasetFile[]> {
+    const ref = this.branch || 'main';
+    const apiUrl = `${GitHubContentsSource.JSDELIVR_API}/${encodeURIComponent(this.owner)}/${encodeURIComponent(this.repo)}@${encodeURIComponent(ref)}?structure=flat`;
+    const prefix = `/${this.path.split('/').filter(Boolean).join('/')}/`.replace(/^\/\/$/, '/');
+
+    console.log('Getting databases list from:', apiUrl);
+    const response = await fetch(apiUrl, { signal: AbortSignal.timeout(GitHubContentsSource.LISTING_TIMEOUT) });
+    if (!response.ok) {
+      throw new Error(`jsDelivr HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const { files } = await response.json();
+    if (!Array.isArray(files)) {
+      throw new Error('Unexpected jsDelivr listing format');
+    }
+
+    return files
+      .filter((file: any) => typeof file.name === 'string' && file.name.startsWith(prefix) && !file.name.slice(prefix.length).includes('/'))
+      .filter((file: any) => isListedFileName(file.name.slice(prefix.length)))
+      .map((file: any): DatasetFile => {
+        const path = file.name.slice(1);
+        const repository = { owner: this.owner, repo: this.repo, ref, path };
+        return {
+          name: file.name.slice(prefix.length),
+          downloadUrl: `https://cdn.jsdelivr.net/gh/${repository.owner}/${repository.repo}@${ref}/${path}`,
+          size: file.size,
+          // jsDelivr отдает sha256 в base64
+          sha256: typeof file.hash === 'string' ? base64ToHex(file.hash) : undefined,
+          repository
+        };
+      });
+  }
+
+  private getLocation(path: string, downloadUrl: string): RepositoryLocation {
+    // raw.githubusercontent.com/<owner>/<repo>/<ref>/<path>
+    const ref = this.branch || decodeURIComponent(new URL(downloadUrl).pathname.split('/')[3] || 'main');
+    return { owner: this.owner, repo: this.repo, ref, path };
+  }
+}
+
+/**
+ * Ассеты последнего релиза репозитория GitHub. Датасеты выбираются по шаблону имени,
+ * патчи и контрольные суммы из того же релиза берутся как есть.
+ * Имя ассета может не меняться между релизами, поэтому ревизией служит тег релиза.
+ */
+export class GitHubReleaseSource implements DatasetSource {
+  private static readonly API_BASE = 'https://api.github.com';
+  private static readonly LISTING_TIMEOUT = 15000;
+
+  constructor(
+    private readonly owner: string,
+    private readonly repo: string,
+    private readonly assetPattern: string,
+    private readonly token?: string
+  ) {}
+
+  get description(): string {
+    return `release:${this.owner}/${this.repo}/${this.assetPattern}`;
+  }
+
+  async listDatasets(): Promise<DatasetFile[]> {
+    const apiUrl = `${GitHubReleaseSource.API_BASE}/repos/${encodeURIComponent(this.owner)}/${encodeURIComponent(this.repo)}/releases/latest`;
+
+    console.log('Getting latest release from:', apiUrl);
+    const init = {
+      headers: withGitHubAuth(apiUrl, {
+        'Accept': 'application/vnd.github.v3+json',
+        'User-Agent': 'AnimestarsCards-Extension'
+      }, this.token),
+      signal: AbortSignal.timeout(GitHubReleaseSource.LISTING_TIMEOUT)
+    };
+
+    const release = await new HttpCache().fetch(apiUrl, init, async (response): Promise<GitHubRelease | null> => {
+      if (!response.ok) {
+        if (response.status === 404) {
+          console.log('No published releases found');
+          return null;
+        }
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      return response.json();
+    });
+
+    if (!release || !Array.isArray(release.assets)) {
+      return [];
+    }
+
+    console.log(`Latest release: ${release.tag_name} (${release.published_at})`);
+    const matchesPattern = globToRegExp(this.assetPattern);
+
+    // Датасеты определяются только шаблоном: имена ассетов не обязаны начинаться с animestars_
+    return release.assets
+      .filter(asset => isPatchFileName(asset.name) || isChecksumFileName(asset.name) || matchesPattern.test(parseDatasetFileName(asset.name).baseName))
+      .map(asset => this.toDatasetFile(asset, release));
+  }
+
+  private toDatasetFile(asset: GitHubAsset, release: GitHubRelease): DatasetFile {
+    const sha256 = asset.digest?.match(/^sha256:([0-9a-f]{64})$/i)?.[1];
+    return {
+      name: asset.name,
+      downloadUrl: asset.browser_download_url,
+      size: asset.size,
+      sha256,
+      revision: release.tag_name,
+      release: { id: release.id, tag: release.tag_name, publishedAt: release.published_at }
+    };
+  }
+}
+
+/**
+ * Произвольный HTTP-сервер: JSON-манифест или HTML-индекс директории (autoindex).
+ * Манифест - массив имен/путей или объектов { name, url?, size?, sha?, sha256? },
+ * либо объект { files: [...] }. Относительные ссылки разрешаются от адреса манифеста.
+ */
+export class HttpManifestSource implements DatasetSource {
+  constructor(private readonly manifestUrl: string, private readonly token?: string) {}
+
+  get description(): string {
+    return `http:${this.manifestUrl}`;
+  }
+
+  async listDatasets(): Promise<DatasetFile[]> {
+    console.log('Getting databases list from manifest:', this.manifestUrl);
+    return new HttpCache().fetch(this.manifestUrl, {
+      cache: 'no-cache',
+      headers: withGitHubAuth(this.manifestUrl, {}, this.token)
+    }, async response => {
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      const body = await response.text();
+
+      let entries: any[];
+      if (contentType.includes('json') || /^\s*[\[{]/.test(body)) {
+        const manifest = JSON.parse(body);
+        entries = Array.isArray(manifest) ? manifest : Array.isArray(manifest?.files) ? manifest.files : [];
+      } else {
+        // Индекс директории: берем все ссылки со страницы
+        entries = Array.from(body.matchAll(/href\s*=\s*["']([^"'#?]+)["']/gi), match => match[1]);
+      }
+
+      const files: DatasetFile[] = [];
+      for (const entry of entries) {
+        const file = this.toDatasetFile(entry);
+        // Имена датасетов в манифесте задает его автор - берем любые JSON-файлы
+        if (file && (JSON_FILE_NAME.test(file.name) || isChecksumFileName(file.name))) {
+          files.push(file);
+        }
+      }
+      return files;
+    });
+  }
+
+  private toDatasetFile(entry: any): DatasetFile | null {
+    if (typeof entry === 'string') {
+      const downloadUrl = new URL(entry, this.manifestUrl).href;
+      return { name: fileNameFromUrl(downloadUrl), downloadUrl };
+    }
+
+    if (entry && typeof entry === 'object' && (typeof entry.name === 'string' || typeof entry.url === 'string')) {
+      const downloadUrl = new URL(entry.url || entry.name, this.manifestUrl).href;
+      return {
+        name: typeof entry.name === 'string' ? entry.name : fileNameFromUrl(downloadUrl),
+        downloadUrl,
+        size: typeof entry.size === 'number' ? entry.size : undefined,
+        sha: typeof entry.sha === 'string' ? entry.sha : undefined,
+        sha256: typeof entry.sha256 === 'string' ? entry.sha256 : undefined
+      };
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Один файл по прямой ссылке. Имя файла не меняется между версиями,
+ * поэтому изменения отслеживаются по ETag / Last-Modified.
+ */
+export class SingleUrlSource implements DatasetSource {
+  constructor(private readonly url: string, private readonly token?: string) {}
+
+  get description(): string {
+    return `url:${this.url}`;
+  }
+
+  async listDatasets(): Promise<DatasetFile[]> {
+    let revision: string | undefined;
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'HEAD',
+        cache: 'no-cache',
+        headers: withGitHubAuth(this.url, {}, this.token)
+      });
+      if (response.ok) {
+        revision = response.headers.get('etag') || response.headers.get('last-modified') || undefined;
+      } else {
+        console.warn(`HEAD ${this.url} failed: HTTP ${response.status}`);
+      }
+    } catch (error) {
+      // Не все серверы поддерживают HEAD - тогда обновление определяется только по имени файла
+      console.warn('Could not fetch dataset revision:', error);
+    }
+
+    return [{ name: fileNameFromUrl(this.url), downloadUrl: this.url, revision }];
+  }
+}
+
+/**
+ * Закрепить можно только версию, которая остается в листинге отдельным файлом. У прямой ссылки
+ * содержимое меняется под тем же именем, а релиз-источник видит только последний релиз.
+ */
+export function supportsPinning(config: DataSourceConfig): boolean {
+  return config.type === 'github' || config.type === 'http';
+}
+
+export function createDatasetSource(config: DataSourceConfig, githubToken?: string): DatasetSource {
+  switch (config.type) {
+    case 'github':
+      return new GitHubContentsSource(config.owner, config.repo, config.path, config.branch, githubToken);
+    case 'http':
+      return new HttpManifestSource(config.manifestUrl, githubToken);
+    case 'url':
+      return new SingleUrlSource(config.url, githubToken);
+    case 'release':
+      return new GitHubReleaseSource(config.owner, config.repo, config.assetPattern, githubToken);
+    default:
+      throw new Error(`Unknown data source type: ${(config as any).type}`);
+  }
+}
+
+function base64ToHex(value: string): string {
+  return Array.from(atob(value), char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+}
+
+// Шаблон имени с * и ? - в регулярное выражение на все имя
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`);
+}
+
+function fileNameFromUrl(url: string): string {
+  const path = new URL(url).pathname;
+  return decodeURIComponent(path.substring(path.lastIndexOf('/') + 1)) || 'dataset.json';
+}
@@ -0,0 +1,88 @@
+import { AnimeStats, CardData, CardStatField, StatTotals } from './types';
+
+/**
+ * Агрегаты по аниме: количество карт по рангам, суммарные и средние users/need/trade.
+ */
+export function computeAnimeStats(cards: CardData[]): AnimeStats[] {
+  const byAnime = new Map<number, AnimeStats>();
+
+  for (const card of cards) {
+    let anime = byAnime.get(card.animeId);
+    if (!anime) {
+      anime = {
+        animeId: card.animeId,
+        animeName: card.animeName || '',
+        animeLink: card.animeLink || '',
+        cardCount: 0,
+        rankCounts: {},
+        totals: { users: 0, need: 0, trade: 0 },
+        averages: { users: 0, need: 0, trade: 0 }
+      };
+      byAnime.set(card.animeId, anime);
+    }
+
+    anime.cardCount++;
+    anime.rankCounts[card.cardRank] = (anime.rankCounts[card.cardRank] || 0) + 1;
+    anime.totals.users += card.users;
+    anime.totals.need += card.need;
+    anime.totals.trade += card.trade;
+  }
+
+  const result = Array.from(byAnime.values());
+  for (const anime of result) {
+    anime.averages = {
+      users: anime.totals.users / anime.cardCount,
+      need: anime.totals.need / anime.cardCount,
+      trade: anime.totals.trade / anime.cardCount
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Перцентили users/need/trade каждой карты среди карт того же cardRank (0-100).
+ * Используется средний ранг: доля карт со значением меньше плюс половина равных.
+ */
+export function computeRankPercentiles(cards: CardData[]): Map<number, StatTotals> {
+  const fields: CardStatField[] = ['users', 'need', 'trade'];
+  const byRank = new Map<string, CardData[]>();
+
+  for (const card of cards) {
+    const group = byRank.get(card.cardRank);
+    if (group) {
+      group.push(card);
+    } else {
+      byRank.set(card.cardRank, [card]);
+    }
+  }
+
+  const result = new Map<number, StatTotals>();
+  for (const card of cards) {
+    result.set(card.cardId, { users: 0, need: 0, trade: 0 });
+  }
+
+  byRank.forEach(group => {
+    for (const field of fields) {
+      const sorted = group.map(card => card[field]).sort((a, b) => a - b);
+      const percentileByValue = new Map<number, number>();
+
+      let start = 0;
+      while (start < sorted.length) {
+        let end = start;
+        while (end < sorted.length && sorted[end] === sorted[start]) {
+          end++;
+        }
+        const percentile = ((start + (end - start) / 2) / sorted.length) * 100;
+        percentileByValue.set(sorted[start], Math.round(percentile * 10) / 10);
+        start = end;
+      }
+
+      for (const card of group) {
+        result.get(card.cardId)![field] = percentileByValue.get(card[field])!;
+      }
+    }
+  });
+
+  return result;
+}
@@ -16,13 +16,287 @@ export interface CardData {
   lastUpdate: string;
 }
 
+// Карта в том виде, в котором она хранится в IndexedDB (с вычисляемыми полями для индексов)
+export interface StoredCard extends CardData {
+  percentiles?: StatTotals; // Перцентили статистики среди карт того же ранга
+  searchTokens: string[];
+  imageKey: string;
+  imageFileName: string;
+}
+
+export interface CardSearchResult {
+  card: CardData;
+  score: number;
+}
+
+export type CardStatField = 'users' | 'need' | 'trade';
+
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export interface CardQuery {
+  cardRank?: string | string[];
+  animeId?: number;
+  cardAuthor?: string;
+  users?: NumericRange;
+  need?: NumericRange;
+  trade?: NumericRange;
+  sortBy?: CardStatField | 'cardId' | 'cardName';
+  sortOrder?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+export interface CardQueryResult {
+  items: CardData[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+export interface StatTotals {
+  users: number;
+  need: number;
+  trade: number;
+}
+
+export interface AnimeStats {
+  animeId: number;
+  animeName: string;
+  animeLink: string;
+  cardCount: number;
+  rankCounts: Record<string, number>; // Количество карт по cardRank
+  totals: StatTotals;
+  averages: StatTotals;
+}
+
+export interface AnimeListQuery {
+  sortBy?: 'cardCount' | 'animeName' | CardStatField;
+  sortOrder?: 'asc' | 'desc';
+  offset?: number;
+  limit?: number;
+}
+
+export interface AnimeListResult {
+  items: AnimeStats[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
 export interface DatabaseInfo {
+  // id релиза GitHub, из которого загружен датасет (0 - не из релиза)
   releaseId: number;
   version: string;
   timestamp: string;
   totalCards: number;
   filename?: string;
   downloadUrl?: string;
+  // ETag загруженного файла - повторная загрузка того же файла идет условным запросом
+  etag?: string;
+  // Хеш, с которым сверен загруженный файл
+  integrity?: DatasetIntegrity;
+  // Хост зеркала, с которого файл был загружен
+  mirror?: string;
+}
+
+export interface DatasetIntegrity {
+  algorithm: 'git-blob-sha1' | 'sha256';
+  hash: string;
+  size: number;
+}
+
+export interface RateLimitState {
+  limit: number;
+  remaining: number;
+  resetAt: number; // ms
+  updatedAt: number;
+}
+
+export type UpdateCheckOutcome = 'updated' | 'upToDate' | 'failed' | 'deferred';
+
+// Результат последней плановой проверки обновлений, хранится в chrome.storage
+export interface UpdateCheckState {
+  lastCheckAt: number; // ms
+  outcome: UpdateCheckOutcome;
+  error?: string;
+  // Время следующей проверки по расписанию (ms)
+  nextCheckAt?: number;
+  // Проверка отложена до этого времени (ms), например до сброса лимита GitHub API
+  deferredUntil?: number;
+}
+
+export interface ImportStats {
+  added: number;
+  changed: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface CardHistoryEntry {
+  cardId: number;
+  timestamp: number; // Время датасета в секундах
+  filename?: string;
+  users: number;
+  need: number;
+  trade: number;
+}
+
+export type DataSourceConfig =
+  | { type: 'github'; owner: string; repo: string; path: string; branch?: string }
+  | { type: 'http'; manifestUrl: string }
+  | { type: 'url'; url: string }
+  // Ассеты последнего релиза; assetPattern - шаблон имени датасета (* и ?), например animestars_*.json
+  | { type: 'release'; owner: string; repo: string; assetPattern: string };
+
+export type DatasetCompression = 'gzip' | 'brotli';
+
+// Файл датасета в списке, который отдает источник данных
+export interface DatasetFile {
+  // Имя несжатого датасета (animestars_*.json) - по нему сравниваются версии
+  name: string;
+  downloadUrl: string;
+  // Сжатый вариант и несжатый файл, на который можно откатиться при ошибке распаковки
+  compression?: DatasetCompression;
+  fallback?: DatasetFile;
+  size?: number;
+  // git blob sha (как в листинге GitHub) и/или sha256 файла в источнике
+  sha?: string;
+  sha256?: string;
+  // Файл контрольной суммы рядом с датасетом (animestars_*.json.sha256)
+  checksumUrl?: string;
+  // Ревизия содержимого для источников без даты в имени файла (ETag / Last-Modified)
+  revision?: string;
+  // Расположение в репозитории GitHub - по нему строятся адреса зеркал
+  repository?: RepositoryLocation;
+  // Релиз GitHub, к которому приложен файл
+  release?: ReleaseLocation;
+}
+
+export interface ReleaseLocation {
+  id: number;
+  tag: string;
+  publishedAt: string;
+}
+
+export interface RepositoryLocation {
+  owner: string;
+  repo: string;
+  ref: string;
+  path: string;
+}
+
+export interface ExtensionSettings {
+  historyRetentionDays: number;
+  dataSource: DataSourceConfig;
+  // Персональный токен GitHub (пустая строка - анонимные запросы)
+  githubToken: string;
+  // Закрепленная версия датасета (DatabaseInfo.version: имя файла и ревизия); пока задана,
+  // автообновление на новые версии не выполняется
+  pinnedVersion: string | null;
+  // Пользовательский шаблон адреса зеркала ({url}, {name}, {owner}, {repo}, {ref}, {path}), пустая строка - нет
+  mirrorTemplate: string;
+  // Интервал автоматической проверки обновлений, в часах
+  updateIntervalHours: number;
+}
+
+// Разница между двумя датасетами: added/changed - полные записи карт, removed - cardId
+export interface DatasetPatch {
+  format: string;
+  from: string;
+  to: string;
+  metadata?: any;
+  added: unknown[];
+  changed: unknown[];
+  removed: number[];
+}
+
+export interface DatasetPayload {
+  metadata: any;
+  cards: unknown[]; // Сырые записи, проверяются при импорте
+}
+
+export interface UpdateProgress {
+  phase: 'downloading' | 'saving' | 'committing' | 'done' | 'failed';
+  // Байты при загрузке, карты при сохранении
+  loaded: number;
+  total: number | null;
+  filename?: string;
+  error?: string;
+}
+
+export type ProgressCallback = (progress: UpdateProgress) => void;
+
+// clear - очистка базы: идет через ту же очередь, чтобы не пересечься с записью карт
+export type UpdateJobKind = 'update' | 'loadVersion' | 'import' | 'clear';
+
+// Выполняющееся в background обновление базы
+export interface UpdateJobState {
+  id: number;
+  kind: UpdateJobKind;
+  // Имя загружаемой версии или импортируемого файла
+  target?: string;
+  startedAt: number; // ms
+  progress: UpdateProgress | null;
+  cancelRequested: boolean;
+  // Запросы, которые ждут результат этого задания (первый и присоединившиеся)
+  waiters: number;
+  // Задания в очереди за текущим
+  queued: number;
+}
+
+export interface DatasetDownload {
+  data: any;
+  etag?: string;
+  integrity?: DatasetIntegrity;
+  notModified?: boolean;
+}
+
+export interface UpdateResult {
+  success: boolean;
+  // Файл не изменился с прошлой загрузки (HTTP 304), импорт не выполнялся
+  notModified?: boolean;
+  cardsCount?: number;
+  changes?: ImportStats;
+  quarantined?: number;
+  filename?: string;
+  // Версия установленного датасета (DatabaseInfo.version)
+  version?: string;
+  // Имя патча, если база обновлена наложением патча вместо полной загрузки
+  patch?: string;
+  error?: string;
+  // Причина ошибки для кода ответа в протоколе сообщений
+  errorCode?: UpdateErrorCode;
+}
+
+export type UpdateErrorCode = 'NOT_FOUND' | 'RATE_LIMITED' | 'INTEGRITY' | 'CANCELLED' | 'UPDATE_FAILED';
+
+export interface QuarantinedRecord {
+  index: number; // Позиция записи во входящем массиве
+  cardId?: unknown;
+  cardName?: unknown;
+  errors: string[];
+}
+
+export interface QuarantineReport {
+  filename?: string;
+  createdAt: string;
+  totalRecords: number;
+  validRecords: number;
+  quarantinedCount: number;
+  rejected: boolean; // Импорт отклонен из-за превышения порога
+  records: QuarantinedRecord[]; // Может быть усечен до MAX_REPORTED_RECORDS
+}
+
+// Файл экспорта локальной базы
+export interface DatabaseExport {
+  format: string;
+  formatVersion: number;
+  exportedAt: string;
+  info: DatabaseInfo | null;
+  cards: CardData[];
 }
 
 export interface GitHubRelease {
@@ -39,12 +313,16 @@ export interface GitHubAsset {
   browser_download_url: string;
   size: number;
   content_type: string;
+  // "sha256:<hex>", есть у ассетов, загруженных после появления поля в API
+  digest?: string | null;
 }
 
 export interface CardStats {
   users: number;
   need: number;
   trade: number;
+  cardRank?: string;
+  percentiles?: StatTotals; // 0-100 среди карт того же ранга
 }
 
 export interface CardElement {
@@ -0,0 +1,163 @@
+import { CardData, QuarantinedRecord, QuarantineReport } from './types';
+
+// Доля некорректных записей, при превышении которой импорт отклоняется целиком
+export const MAX_BAD_FRACTION = 0.05;
+
+// Сколько записей сохраняем в отчете карантина, чтобы не раздувать хранилище
+const MAX_REPORTED_RECORDS = 500;
+
+// Верхняя граница для счетчиков users/need/trade - все, что больше, считаем мусором
+const MAX_STAT_VALUE = 10_000_000;
+
+const OPTIONAL_STRING_FIELDS = [
+  'cardmp4',
+  'cardwebm',
+  'cardAuthor',
+  'animeLink',
+  'animeName',
+  'cardLink',
+  'lastUpdate'
+] as const;
+
+const STAT_FIELDS = ['users', 'need', 'trade'] as const;
+
+export interface ValidationResult {
+  cards: CardData[];
+  report: QuarantineReport;
+}
+
+/**
+ * Проверяет одну запись датасета. Числа, пришедшие строками, приводятся к number,
+ * отсутствующие необязательные строки заменяются пустыми.
+ */
+export function validateCard(raw: unknown): { card: CardData | null; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { card: null, errors: ['record is not an object'] };
+  }
+
+  const record = raw as Record<string, unknown>;
+
+  const cardId = toNumber(record.cardId);
+  if (cardId === null || !Number.isInteger(cardId) || cardId <= 0) {
+    errors.push('cardId must be a positive integer');
+  }
+
+  if (typeof record.cardName !== 'string' || record.cardName.trim() === '') {
+    errors.push('cardName must be a non-empty string');
+  }
+
+  if (typeof record.cardRank !== 'string' || record.cardRank.trim() === '') {
+    errors.push('cardRank must be a non-empty string');
+  }
+
+  if (typeof record.cardImage !== 'string') {
+    errors.push('cardImage must be a string');
+  }
+
+  const animeId = toNumber(record.animeId);
+  if (animeId === null || !Number.isInteger(animeId) || animeId < 0) {
+    errors.push('animeId must be a non-negative integer');
+  }
+
+  const stats: Record<string, number> = {};
+  for (const field of STAT_FIELDS) {
+    const value = toNumber(record[field]);
+    if (value === null || !Number.isInteger(value) || value < 0 || value > MAX_STAT_VALUE) {
+      errors.push(`${field} must be an integer between 0 and ${MAX_STAT_VALUE}`);
+    } else {
+      stats[field] = value;
+    }
+  }
+
+  const strings: Record<string, string> = {};
+  for (const field of OPTIONAL_STRING_FIELDS) {
+    const value = record[field];
+    if (value === undefined || value === null) {
+      strings[field] = '';
+    } else if (typeof value !== 'string') {
+      errors.push(`${field} must be a string`);
+    } else {
+      strings[field] = value;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { card: null, errors };
+  }
+
+  return {
+    card: {
+      ...(record as unknown as CardData),
+      ...strings,
+      cardId: cardId!,
+      animeId: animeId!,
+      users: stats.users,
+      need: stats.need,
+      trade: stats.trade
+    },
+    errors
+  };
+}
+
+/**
+ * Проверяет весь датасет: некорректные записи и дубликаты cardId отправляются в карантин.
+ * rejected = true, если доля плохих записей больше maxBadFraction.
+ */
+export function validateCards(records: unknown[], maxBadFraction: number = MAX_BAD_FRACTION): ValidationResult {
+  const cards: CardData[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  const seenIds = new Set<number>();
+  let quarantinedCount = 0;
+
+  const quarantine = (index: number, raw: unknown, errors: string[]) => {
+    quarantinedCount++;
+    if (quarantined.length < MAX_REPORTED_RECORDS) {
+      const record = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+      quarantined.push({ index, cardId: record.cardId, cardName: record.cardName, errors });
+    }
+  };
+
+  records.forEach((raw, index) => {
+    const { card, errors } = validateCard(raw);
+
+    if (!card) {
+      quarantine(index, raw, errors);
+    } else if (seenIds.has(card.cardId)) {
+      quarantine(index, raw, [`duplicate cardId ${card.cardId}`]);
+    } else {
+      seenIds.add(card.cardId);
+      cards.push(card);
+    }
+  });
+
+  const rejected = records.length === 0 || quarantinedCount / records.length > maxBadFraction;
+
+  if (quarantinedCount > 0) {
+    console.warn(`⚠️ Quarantined ${quarantinedCount} of ${records.length} dataset records`);
+  }
+
+  return {
+    cards,
+    report: {
+      createdAt: new Date().toISOString(),
+      totalRecords: records.length,
+      validRecords: cards.length,
+      quarantinedCount,
+      rejected,
+      records: quarantined
+    }
+  };
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
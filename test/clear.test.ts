@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installChrome, makeCards, resetIndexedDB, startServer, TestServer } from './helpers';
+import { GitHubService } from '../src/github';
+import { DatabaseService } from '../src/database';
+
+const DATASET = JSON.stringify({ timestamp: '1767225600', cards: makeCards(5) });
+
+// Очистка в background: удалить базу и сразу открыть ее заново
+async function clearDatabase(dbService: DatabaseService): Promise<void> {
+  await dbService.deleteDatabase();
+  await dbService.init();
+}
+
+describe('database clear', () => {
+  let server: TestServer;
+
+  beforeEach(async () => {
+    resetIndexedDB();
+    server = await startServer((_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json', 'ETag': '"v1"' });
+      response.end(DATASET);
+    });
+    installChrome({ settings: { dataSource: { type: 'url', url: `${server.url}/cards.json` } } });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('deletes the database after an update', { timeout: 5000 }, async () => {
+    const dbService = new DatabaseService();
+    await dbService.init();
+
+    const result = await new GitHubService().updateDatabase();
+    assert.equal(result.success, true, result.error);
+    assert.equal(await dbService.getCardsCount(), 5);
+
+    await clearDatabase(dbService);
+
+    assert.equal(await dbService.getCardsCount(), 0);
+    assert.equal(await dbService.getDatabaseInfo(), null);
+  });
+
+  it('is not blocked by another open connection', { timeout: 5000 }, async () => {
+    const dbService = new DatabaseService();
+    await dbService.init();
+    const other = new DatabaseService();
+    await other.init();
+
+    await clearDatabase(dbService);
+
+    // Закрытое по versionchange соединение переоткрывается при следующем запросе
+    assert.equal(await other.getCardsCount(), 0);
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { gzipSync } from 'node:zlib';
+import { installChrome, makeCards, resetIndexedDB, startServer, TestServer } from './helpers';
+import { GitHubService } from '../src/github';
+import { DatabaseService } from '../src/database';
+
+const DATASET_NAME = 'animestars_20260101_000000.json';
+const COMPRESSED = gzipSync(JSON.stringify({ timestamp: '1767225600', cards: makeCards(5) }));
+
+describe('compressed dataset', () => {
+  let server: TestServer;
+
+  // .json.gz с хешем сжатого файла; contentEncoding - как сервер помечает тело ответа
+  async function serveCompressed(contentEncoding?: string): Promise<void> {
+    server = await startServer((request, response) => {
+      if (request.url === '/manifest.json') {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify([{
+          name: `${DATASET_NAME}.gz`,
+          size: COMPRESSED.length,
+          sha256: createHash('sha256').update(COMPRESSED).digest('hex')
+        }]));
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': 'application/json', ...(contentEncoding ? { 'Content-Encoding': contentEncoding } : {}) });
+      response.end(COMPRESSED);
+    });
+    installChrome({ settings: { dataSource: { type: 'http', manifestUrl: `${server.url}/manifest.json` } } });
+  }
+
+  beforeEach(() => {
+    resetIndexedDB();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('verifies and decompresses a gzip file served as is', async () => {
+    await serveCompressed();
+
+    const result = await new GitHubService().updateDatabase();
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.cardsCount, 5);
+    assert.equal((await new DatabaseService().getDatabaseInfo())?.integrity?.algorithm, 'sha256');
+  });
+
+  it('accepts a gzip file that fetch decoded in transit', async () => {
+    await serveCompressed('gzip');
+
+    const result = await new GitHubService().updateDatabase();
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.cardsCount, 5);
+    assert.deepEqual(server.requests, ['GET /manifest.json', `GET /${DATASET_NAME}.gz`]);
+  });
+});
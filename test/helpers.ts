@@ -0,0 +1,114 @@
+import 'fake-indexeddb/auto';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { IDBFactory } from 'fake-indexeddb';
+import { CardData, DatabaseInfo } from '../src/types';
+
+const RANKS = ['e', 'd', 'c', 'b', 'a', 's'];
+
+/**
+ * Новая пустая IndexedDB для каждого теста: DatabaseService открывает базу по фиксированному имени.
+ */
+export function resetIndexedDB(): void {
+  globalThis.indexedDB = new IDBFactory();
+}
+
+export function makeCard(cardId: number, overrides: Partial<CardData> = {}): CardData {
+  return {
+    cardId,
+    cardName: `Card ${cardId}`,
+    cardRank: RANKS[cardId % RANKS.length],
+    cardImage: `/uploads/cards_image/${cardId % 500}/${cardId}-card.webp`,
+    cardmp4: '',
+    cardwebm: '',
+    cardAuthor: 'author',
+    animeLink: `/aniserials/video/${cardId % 500}`,
+    animeName: `Anime ${cardId % 500}`,
+    cardLink: `/cards/${cardId}/users/`,
+    animeId: cardId % 500,
+    users: cardId % 97,
+    need: cardId % 31,
+    trade: cardId % 13,
+    lastUpdate: '2026-01-01',
+    ...overrides
+  };
+}
+
+export function makeCards(count: number): CardData[] {
+  return Array.from({ length: count }, (_, index) => makeCard(index + 1));
+}
+
+// Время датасета - сейчас: иначе вся история сразу попадает под очистку по historyRetentionDays
+export function makeInfo(totalCards: number, overrides: Partial<DatabaseInfo> = {}): DatabaseInfo {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  return {
+    releaseId: 0,
+    version: '1.0',
+    timestamp,
+    totalCards,
+    filename: `animestars_${timestamp}.json`,
+    ...overrides
+  };
+}
+
+/**
+ * chrome.storage.local и chrome.alarms в памяти - все, что нужно сервисам вне background.
+ */
+export function installChrome(initial: Record<string, unknown> = {}): Record<string, unknown> {
+  const data: Record<string, unknown> = { ...initial };
+  const pick = (keys?: string | string[] | null) => {
+    if (keys === undefined || keys === null) return { ...data };
+    return Object.fromEntries((Array.isArray(keys) ? keys : [keys]).filter(key => key in data).map(key => [key, data[key]]));
+  };
+
+  const alarms = new Map<string, chrome.alarms.Alarm>();
+
+  (globalThis as any).chrome = {
+    alarms: {
+      get: async (name: string) => alarms.get(name),
+      create: async (name: string, info: chrome.alarms.AlarmCreateInfo) => {
+        alarms.set(name, { name, scheduledTime: info.when ?? Date.now(), periodInMinutes: info.periodInMinutes });
+      }
+    },
+    storage: {
+      local: {
+        get: async (keys?: string | string[] | null) => pick(keys),
+        set: async (items: Record<string, unknown>) => {
+          Object.assign(data, structuredClone(items));
+        },
+        remove: async (keys: string | string[]) => {
+          for (const key of Array.isArray(keys) ? keys : [keys]) delete data[key];
+        }
+      }
+    }
+  };
+  return data;
+}
+
+export interface TestServer {
+  url: string;
+  requests: string[];
+  close(): Promise<void>;
+}
+
+/**
+ * Локальный HTTP-сервер вместо GitHub и зеркал.
+ */
+export async function startServer(handler: http.RequestListener): Promise<TestServer> {
+  const requests: string[] = [];
+  const server = http.createServer((request, response) => {
+    requests.push(`${request.method} ${request.url}`);
+    handler(request, response);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    })
+  };
+}
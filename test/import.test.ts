@@ -0,0 +1,45 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { makeCard, makeCards, makeInfo, resetIndexedDB } from './helpers';
+import { DatabaseService } from '../src/database';
+import { CardData } from '../src/types';
+
+async function importDataset(dbService: DatabaseService, cards: CardData[]) {
+  await dbService.stageCards(cards);
+  return dbService.commitStagedCards(makeInfo(cards.length), 30);
+}
+
+describe('incremental import', () => {
+  let dbService: DatabaseService;
+
+  beforeEach(async () => {
+    resetIndexedDB();
+    dbService = new DatabaseService();
+    await dbService.init();
+  });
+
+  it('counts only dataset changes, not shifted percentiles', async () => {
+    const cards = makeCards(60);
+    await importDataset(dbService, cards);
+    const before = await dbService.getCardStats(6);
+
+    // Новая карта того же ранга с максимальной статистикой сдвигает перцентили всего ранга
+    const stats = await importDataset(dbService, [...cards, makeCard(66, { users: 1000, need: 1000, trade: 1000 })]);
+
+    assert.deepEqual(stats, { added: 1, changed: 0, removed: 0, unchanged: 60 });
+    const after = await dbService.getCardStats(6);
+    assert.notDeepEqual(after?.percentiles, before?.percentiles);
+  });
+
+  it('counts changed, removed and unchanged cards', async () => {
+    const cards = makeCards(10);
+    await importDataset(dbService, cards);
+
+    const next = cards.slice(1).map(card => card.cardId === 5 ? { ...card, users: card.users + 1 } : card);
+    const stats = await importDataset(dbService, next);
+
+    assert.deepEqual(stats, { added: 0, changed: 1, removed: 1, unchanged: 8 });
+    assert.equal((await dbService.getCardStats(5))?.users, cards[4].users + 1);
+    assert.equal(await dbService.getCardStats(1), null);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { UpdateJobManager, UpdateTask } from '../src/jobs';
+import { UpdateProgress, UpdateResult } from '../src/types';
+
+// Задание, которое завершается по команде теста или по отмене
+function controlledTask(log: string[], name: string) {
+  let finish: (result: UpdateResult) => void = () => undefined;
+  const task: UpdateTask = (signal, onProgress) => new Promise(resolve => {
+    log.push(`start ${name}`);
+    onProgress({ phase: 'downloading', loaded: 1, total: 2 });
+    finish = result => {
+      log.push(`end ${name}`);
+      resolve(result);
+    };
+    signal.addEventListener('abort', () => finish({ success: false, errorCode: 'CANCELLED' }));
+  });
+  return { task, finish: (result: UpdateResult = { success: true }) => finish(result) };
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('update job manager', () => {
+  it('runs jobs one at a time and lets the same update join', async () => {
+    const log: string[] = [];
+    const progress: UpdateProgress[] = [];
+    const jobs = new UpdateJobManager(update => progress.push(update));
+    const first = controlledTask(log, 'update');
+    const second = controlledTask(log, 'update again');
+    const version = controlledTask(log, 'version');
+
+    const update = jobs.run('update', undefined, first.task);
+    const joined = jobs.run('update', undefined, second.task);
+    const loadVersion = jobs.run('loadVersion', 'animestars_1.json', version.task);
+    assert.equal(joined, update);
+    assert.deepEqual(jobs.getState(), {
+      id: 1, kind: 'update', target: undefined, startedAt: 0, progress: null, cancelRequested: false, waiters: 2, queued: 1
+    });
+
+    await tick();
+    assert.equal(jobs.getState()?.progress?.phase, 'downloading');
+    first.finish({ success: true, cardsCount: 3 });
+    assert.deepEqual(await update, { success: true, cardsCount: 3 });
+
+    await tick();
+    assert.equal(jobs.getState()?.kind, 'loadVersion');
+    version.finish();
+    await loadVersion;
+
+    assert.deepEqual(log, ['start update', 'end update', 'start version', 'end version']);
+    assert.equal(progress.length, 2);
+    assert.equal(jobs.getState(), null);
+  });
+
+  it('cancels only the running job', async () => {
+    const log: string[] = [];
+    const jobs = new UpdateJobManager(() => undefined);
+    const running = controlledTask(log, 'update');
+    const queued = controlledTask(log, 'import');
+
+    const update = jobs.run('update', undefined, running.task);
+    const importJob = jobs.run('import', 'cards.json', queued.task);
+    await tick();
+
+    assert.equal(jobs.cancel(), true);
+    assert.equal(jobs.cancel(), false);
+    assert.equal((await update).errorCode, 'CANCELLED');
+
+    // Новый запрос не присоединяется к отмененному заданию
+    await tick();
+    assert.equal(jobs.getState()?.kind, 'import');
+    queued.finish();
+    assert.equal((await importJob).success, true);
+  });
+
+  it('does not cancel a database clear', async () => {
+    const log: string[] = [];
+    const jobs = new UpdateJobManager(() => undefined);
+    const clear = controlledTask(log, 'clear');
+
+    const result = jobs.run('clear', undefined, clear.task);
+    await tick();
+
+    assert.equal(jobs.cancel(), false);
+    clear.finish();
+    assert.equal((await result).success, true);
+  });
+});
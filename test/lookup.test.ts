@@ -0,0 +1,96 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { makeCards, makeInfo, resetIndexedDB } from './helpers';
+import { DatabaseService } from '../src/database';
+import { CardData } from '../src/types';
+
+const CARD_COUNT = 30000;
+const LOOKUPS = 200;
+
+// Прежний поиск: проход курсором по всему индексу cardImage со сравнением имени файла
+function scanByFileName(imageUrl: string): Promise<number | null> {
+  const fileName = imageUrl.split('?')[0].split('/').pop();
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open('AnimestarsCardsDB');
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+      const cursorRequest = db.transaction(['cards'], 'readonly').objectStore('cards').index('cardImage').openCursor();
+
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          db.close();
+          resolve(null);
+        } else if ((cursor.value as CardData).cardImage.split('/').pop() === fileName) {
+          db.close();
+          resolve(cursor.value.cardId);
+        } else {
+          cursor.continue();
+        }
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    };
+  });
+}
+
+describe('image lookups over a synthetic 30K-card store', () => {
+  const cards = makeCards(CARD_COUNT);
+  const dbService = new DatabaseService();
+
+  before(async () => {
+    resetIndexedDB();
+    await dbService.init();
+    await dbService.stageCards(cards);
+    await dbService.commitStagedCards(makeInfo(cards.length), 30);
+  });
+
+  it('finds cards by absolute URL and by file name on another path', async () => {
+    const card = cards[12345];
+    assert.equal(await dbService.findCardByImageUrl(`https://animestars.org${card.cardImage}?v=2`), card.cardId);
+    assert.equal(await dbService.findCardByImageUrl(`https://cdn.example.org/other/${card.cardId}-card.webp`), card.cardId);
+    assert.equal(await dbService.findCardByImageUrl('/uploads/cards_image/missing.webp'), null);
+  });
+
+  it('resolves lookups with index gets instead of cursor scans', async t => {
+    // Берем карты из конца набора - для прохода курсором это худший случай
+    const urls = cards.slice(-LOOKUPS).map(card => `https://cdn.example.org/moved/${card.cardId}-card.webp`);
+
+    const indexCursor = IDBIndex.prototype.openCursor;
+    const storeCursor = IDBObjectStore.prototype.openCursor;
+    let cursorsOpened = 0;
+    IDBIndex.prototype.openCursor = function (...args) {
+      cursorsOpened++;
+      return indexCursor.apply(this, args);
+    };
+    IDBObjectStore.prototype.openCursor = function (...args) {
+      cursorsOpened++;
+      return storeCursor.apply(this, args);
+    };
+
+    let indexed: Record<string, number | null>;
+    const indexedStart = performance.now();
+    try {
+      indexed = await dbService.findCardsByImageUrls(urls);
+    } finally {
+      IDBIndex.prototype.openCursor = indexCursor;
+      IDBObjectStore.prototype.openCursor = storeCursor;
+    }
+    const indexedMs = performance.now() - indexedStart;
+
+    assert.equal(cursorsOpened, 0);
+    assert.deepEqual(Object.values(indexed), cards.slice(-LOOKUPS).map(card => card.cardId));
+
+    // Сканирование слишком медленное, чтобы прогонять все запросы - хватит нескольких
+    const scanned = urls.slice(0, 5);
+    const scanStart = performance.now();
+    for (const url of scanned) {
+      assert.equal(await scanByFileName(url), indexed[url]);
+    }
+    const scanMs = (performance.now() - scanStart) / scanned.length * urls.length;
+
+    t.diagnostic(`${urls.length} lookups: index ${indexedMs.toFixed(0)} ms, cursor scan ~${scanMs.toFixed(0)} ms (estimated)`);
+    assert.ok(indexedMs < scanMs, 'index lookups should be faster than a cursor scan');
+  });
+});
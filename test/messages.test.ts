@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MessageRequestError, parseRequest } from '../src/messages';
+
+function assertRejected(message: unknown): void {
+  assert.throws(() => parseRequest(message), (error: unknown) => error instanceof MessageRequestError && error.code === 'INVALID_MESSAGE');
+}
+
+describe('request validation', () => {
+  it('rejects unknown message types', () => {
+    assertRejected({ type: 'dropDatabase' });
+    assertRejected('getSettings');
+  });
+
+  it('accepts card queries that match CardQuery', () => {
+    const data = { cardRank: ['a', 's'], users: { min: 10 }, trade: { max: 5 }, sortBy: 'need', sortOrder: 'asc', offset: 0, limit: 50 };
+    assert.deepEqual(parseRequest({ type: 'queryCards', data }), { type: 'queryCards', data });
+    assert.deepEqual(parseRequest({ type: 'queryCards' }), { type: 'queryCards', data: undefined });
+  });
+
+  it('rejects card queries with invalid fields', () => {
+    assertRejected({ type: 'queryCards', data: { sortBy: 'cardImage' } });
+    assertRejected({ type: 'queryCards', data: { sortOrder: 'up' } });
+    assertRejected({ type: 'queryCards', data: { offset: -1 } });
+    assertRejected({ type: 'queryCards', data: { limit: 0 } });
+    assertRejected({ type: 'queryCards', data: { users: { min: '10' } } });
+    assertRejected({ type: 'queryCards', data: { need: 5 } });
+    assertRejected({ type: 'queryCards', data: { cardRank: [1] } });
+    assertRejected({ type: 'queryCards', data: { rank: 'a' } });
+  });
+
+  it('validates anime list queries against AnimeListQuery', () => {
+    assert.equal(parseRequest({ type: 'listAnime', data: { sortBy: 'animeName', limit: 10 } }).type, 'listAnime');
+    assertRejected({ type: 'listAnime', data: { sortBy: 'cardId' } });
+    assertRejected({ type: 'listAnime', data: { offset: 1.5 } });
+  });
+
+  it('validates settings fields against ExtensionSettings', () => {
+    const data = {
+      historyRetentionDays: 30,
+      updateIntervalHours: 6,
+      dataSource: { type: 'release', owner: 'o', repo: 'r', assetPattern: 'cards-*.json' },
+      githubToken: '',
+      pinnedVersion: null,
+      mirrorTemplate: ''
+    };
+    assert.deepEqual(parseRequest({ type: 'updateSettings', data }), { type: 'updateSettings', data });
+
+    assertRejected({ type: 'updateSettings', data: { updateIntervalHours: '6' } });
+    assertRejected({ type: 'updateSettings', data: { historyRetentionDays: Number.NaN } });
+    assertRejected({ type: 'updateSettings', data: { pinnedVersion: 1 } });
+    assertRejected({ type: 'updateSettings', data: { dataSource: { type: 'ftp', url: 'ftp://example.org' } } });
+    assertRejected({ type: 'updateSettings', data: { dataSource: { type: 'url' } } });
+    assertRejected({ type: 'updateSettings', data: { autoUpdate: true } });
+  });
+});
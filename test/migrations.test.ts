@@ -0,0 +1,105 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { makeCard, makeCards, makeInfo, resetIndexedDB } from './helpers';
+import { DatabaseService } from '../src/database';
+import { LATEST_VERSION, MIGRATIONS, STORES } from '../src/migrations';
+import { CardData } from '../src/types';
+
+const DB_NAME = 'AnimestarsCardsDB';
+
+function openDatabase(version?: number, upgrade?: (db: IDBDatabase) => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = version === undefined ? indexedDB.open(DB_NAME) : indexedDB.open(DB_NAME, version);
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = () => upgrade?.(request.result);
+  });
+}
+
+/**
+ * База в том виде, в котором ее оставляли старые версии расширения: карты без вычисляемых полей.
+ */
+async function createLegacyDatabase(version: 1 | 2, cards: CardData[]): Promise<void> {
+  const db = await openDatabase(version, legacyDb => {
+    const cardsStore = legacyDb.createObjectStore('cards', { keyPath: 'cardId' });
+    cardsStore.createIndex('cardName', 'cardName', { unique: false });
+    cardsStore.createIndex('animeId', 'animeId', { unique: false });
+    if (version >= 2) {
+      cardsStore.createIndex('cardImage', 'cardImage', { unique: false });
+    }
+    legacyDb.createObjectStore('info', { keyPath: 'key' });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(['cards', 'info'], 'readwrite');
+    for (const card of cards) {
+      transaction.objectStore('cards').put(card);
+    }
+    transaction.objectStore('info').put({ key: 'info', ...makeInfo(cards.length, { version: 'legacy' }) });
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  db.close();
+}
+
+async function describeSchema(): Promise<{ version: number; stores: string[]; cardIndexes: string[] }> {
+  const db = await openDatabase();
+  const schema = {
+    version: db.version,
+    stores: Array.from(db.objectStoreNames).sort(),
+    cardIndexes: Array.from(db.transaction([STORES.cards], 'readonly').objectStore(STORES.cards).indexNames).sort()
+  };
+  db.close();
+  return schema;
+}
+
+describe('database migrations', () => {
+  beforeEach(() => {
+    resetIndexedDB();
+  });
+
+  it('lists steps in strictly increasing version order', () => {
+    const versions = MIGRATIONS.map(migration => migration.version);
+    assert.deepEqual(versions, versions.map((_, index) => index + 1));
+    assert.equal(LATEST_VERSION, versions[versions.length - 1]);
+  });
+
+  for (const legacyVersion of [1, 2] as const) {
+    it(`upgrades a v${legacyVersion} database and keeps its cards`, async () => {
+      const cards = [
+        ...makeCards(20),
+        makeCard(21, { cardName: 'Rem', animeName: 'Re:Zero', animeId: 777, cardImage: '/uploads/cards_image/777/rem.webp' })
+      ];
+      await createLegacyDatabase(legacyVersion, cards);
+
+      const dbService = new DatabaseService();
+      await dbService.init();
+
+      const schema = await describeSchema();
+      assert.equal(schema.version, LATEST_VERSION);
+      assert.deepEqual(schema.stores, Object.values(STORES).sort());
+      assert.deepEqual(schema.cardIndexes, ['animeId', 'cardImage', 'cardName', 'imageFileName', 'imageKey', 'searchTokens']);
+
+      // Карты и информация о базе пережили обновление без изменений
+      const upgraded = await dbService.getAllCards();
+      assert.deepEqual(upgraded.sort((a, b) => a.cardId - b.cardId), cards);
+      assert.equal((await dbService.getDatabaseInfo())?.version, 'legacy');
+
+      // Вычисляемые поля и агрегаты построены по уже сохраненным картам
+      assert.equal(await dbService.findCardByImageUrl('https://animestars.org/uploads/cards_image/777/rem.webp'), 21);
+      assert.deepEqual((await dbService.searchCards('zero')).map(result => result.card.cardId), [21]);
+      assert.equal((await dbService.getAnimeStats(777))?.cardCount, 1);
+      assert.ok((await dbService.getCardStats(21))?.percentiles);
+    });
+  }
+
+  it('creates the current schema on a fresh install', async () => {
+    const dbService = new DatabaseService();
+    await dbService.init();
+
+    const schema = await describeSchema();
+    assert.equal(schema.version, LATEST_VERSION);
+    assert.deepEqual(schema.stores, Object.values(STORES).sort());
+    assert.equal(await dbService.getCardsCount(), 0);
+  });
+});
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import http from 'node:http';
+import { installChrome, makeCards, resetIndexedDB, startServer, TestServer } from './helpers';
+import { GitHubService } from '../src/github';
+import { DatabaseService } from '../src/database';
+
+const DATASET_NAME = 'animestars_20260101_000000.json';
+const DATASET = Buffer.from(JSON.stringify({ timestamp: '1767225600', cards: makeCards(5) }));
+const CORRUPTED = Buffer.from(JSON.stringify({ timestamp: '1767225600', cards: makeCards(4) }));
+
+type FileResponse = 'ok' | 'corrupted' | 'error';
+
+function serveDataset(mode: FileResponse): http.RequestListener {
+  return (_request, response) => {
+    if (mode === 'error') {
+      response.writeHead(503);
+      response.end();
+      return;
+    }
+    response.writeHead(200, { 'Content-Type': 'application/json' });
+    response.end(mode === 'ok' ? DATASET : CORRUPTED);
+  };
+}
+
+describe('mirror failover', () => {
+  let primary: TestServer;
+  let mirror: TestServer;
+  let storage: Record<string, unknown>;
+
+  // Основной сервер отдает манифест и сам файл, зеркало подключается шаблоном из настроек
+  async function startServers(primaryFile: FileResponse, mirrorFile: FileResponse): Promise<void> {
+    const serveFile = serveDataset(primaryFile);
+    primary = await startServer((request, response) => {
+      if (request.url === '/manifest.json') {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify([{ name: DATASET_NAME, sha256: createHash('sha256').update(DATASET).digest('hex') }]));
+      } else {
+        serveFile(request, response);
+      }
+    });
+    mirror = await startServer(serveDataset(mirrorFile));
+
+    storage = installChrome({
+      settings: {
+        dataSource: { type: 'http', manifestUrl: `${primary.url}/manifest.json` },
+        mirrorTemplate: `${mirror.url}/mirror/{name}`
+      }
+    });
+  }
+
+  beforeEach(() => {
+    resetIndexedDB();
+  });
+
+  afterEach(async () => {
+    await primary?.close();
+    await mirror?.close();
+  });
+
+  it('falls back to the next mirror when the primary host fails and remembers it', async () => {
+    await startServers('error', 'ok');
+
+    const result = await new GitHubService().updateDatabase();
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.cardsCount, 5);
+    assert.deepEqual(mirror.requests, [`GET /mirror/${DATASET_NAME}`]);
+    assert.equal(storage.preferredMirror, `${mirror.url}/mirror/{name}`);
+
+    const dbService = new DatabaseService();
+    const info = await dbService.getDatabaseInfo();
+    assert.equal(info?.mirror, new URL(mirror.url).host);
+    assert.equal(info?.downloadUrl, `${mirror.url}/mirror/${DATASET_NAME}`);
+  });
+
+  it('skips a mirror whose copy fails the integrity check', async () => {
+    await startServers('corrupted', 'ok');
+
+    const result = await new GitHubService().updateDatabase();
+
+    assert.equal(result.success, true, result.error);
+    assert.ok(primary.requests.includes(`GET /${DATASET_NAME}`));
+    assert.equal((await new DatabaseService().getDatabaseInfo())?.mirror, new URL(mirror.url).host);
+  });
+
+  it('starts with the remembered mirror next time', async () => {
+    await startServers('ok', 'ok');
+    storage.preferredMirror = `${mirror.url}/mirror/{name}`;
+
+    const result = await new GitHubService().updateDatabase();
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(primary.requests, ['GET /manifest.json']);
+    assert.deepEqual(mirror.requests, [`GET /mirror/${DATASET_NAME}`]);
+  });
+
+  it('fails without touching the database when every mirror fails', async () => {
+    await startServers('error', 'error');
+
+    const result = await new GitHubService().updateDatabase();
+
+    assert.equal(result.success, false);
+    assert.equal(result.error, 'Failed to download database data');
+    assert.equal(storage.preferredMirror, undefined);
+    assert.equal(await new DatabaseService().getDatabaseInfo(), null);
+  });
+
+  it('reports an integrity error when no mirror has an intact copy', async () => {
+    await startServers('corrupted', 'corrupted');
+
+    const result = await new GitHubService().updateDatabase();
+
+    assert.equal(result.success, false);
+    assert.equal(result.errorCode, 'INTEGRITY');
+    assert.equal(await new DatabaseService().getCardsCount(), 0);
+  });
+});
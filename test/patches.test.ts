@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { installChrome, makeCard, makeCards, resetIndexedDB, startServer, TestServer } from './helpers';
+import { GitHubService } from '../src/github';
+import { DatabaseService } from '../src/database';
+import { PATCH_FORMAT } from '../src/patches';
+
+const FROM = 'animestars_20260101_000000.json';
+const TO = 'animestars_20260201_000000.json';
+const PATCH = 'animestars_patch_20260101_000000_to_20260201_000000.json';
+
+const CARDS = makeCards(5);
+const FILES: Record<string, Buffer> = {
+  [FROM]: Buffer.from(JSON.stringify({ cards: CARDS })),
+  [PATCH]: Buffer.from(JSON.stringify({
+    format: PATCH_FORMAT,
+    from: FROM,
+    to: TO,
+    added: [makeCard(6)],
+    changed: [{ ...CARDS[0], users: 500 }],
+    removed: []
+  }))
+};
+
+const sha256 = (bytes: Buffer) => createHash('sha256').update(bytes).digest('hex');
+
+describe('patch update', () => {
+  let server: TestServer;
+  let listed: string[];
+
+  beforeEach(async () => {
+    resetIndexedDB();
+    server = await startServer((request, response) => {
+      const name = request.url!.slice(1);
+      if (name === 'manifest.json') {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(listed.map(file => ({ name: file, sha256: FILES[file] ? sha256(FILES[file]) : undefined }))));
+      } else if (FILES[name]) {
+        response.writeHead(200, { 'Content-Type': 'application/json', 'ETag': `"${name}"` });
+        response.end(FILES[name]);
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+    installChrome({ settings: { dataSource: { type: 'http', manifestUrl: `${server.url}/manifest.json` } } });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('records the downloaded patch in the database info', async () => {
+    listed = [FROM];
+    assert.equal((await new GitHubService().updateDatabase()).success, true);
+
+    listed = [FROM, TO, PATCH];
+    const result = await new GitHubService().updateDatabase();
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.patch, PATCH);
+    assert.equal(result.cardsCount, 6);
+    assert.ok(!server.requests.includes(`GET /${TO}`));
+
+    const info = await new DatabaseService().getDatabaseInfo();
+    assert.equal(info?.filename, TO);
+    assert.equal(info?.downloadUrl, `${server.url}/${PATCH}`);
+    assert.equal(info?.mirror, new URL(server.url).host);
+    assert.equal(info?.etag, `"${PATCH}"`);
+    assert.deepEqual(info?.integrity, { algorithm: 'sha256', hash: sha256(FILES[PATCH]), size: FILES[PATCH].length });
+  });
+});
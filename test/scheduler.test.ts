@@ -0,0 +1,64 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installChrome } from './helpers';
+import { UpdateScheduler } from '../src/scheduler';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('update scheduler', () => {
+  let storage: Record<string, unknown>;
+  let scheduler: UpdateScheduler;
+
+  beforeEach(() => {
+    storage = installChrome();
+    scheduler = new UpdateScheduler();
+  });
+
+  it('is due only once the interval has passed since the last check', async t => {
+    t.mock.timers.enable({ apis: ['Date'], now: 10 * HOUR });
+    assert.equal(await scheduler.isDue(2), true);
+
+    await scheduler.recordCheck('upToDate');
+    t.mock.timers.tick(HOUR);
+    assert.equal(await scheduler.isDue(2), false);
+
+    t.mock.timers.tick(HOUR);
+    assert.equal(await scheduler.isDue(2), true);
+  });
+
+  it('runs a deferred check when its alarm fires, even within the interval', async t => {
+    t.mock.timers.enable({ apis: ['Date'], now: 10 * HOUR });
+    await scheduler.recordCheck('updated');
+
+    // Через 2 ч проверка нужна, но лимит GitHub API исчерпан еще на 40 минут
+    t.mock.timers.tick(2 * HOUR);
+    const checkAt = Date.now() + 40 * 60 * 1000;
+    await scheduler.deferUntil(checkAt, 2, 'rate limit');
+
+    const deferred = await scheduler.getState();
+    assert.equal(deferred?.outcome, 'deferred');
+    assert.equal(deferred?.lastCheckAt, 10 * HOUR);
+    assert.equal(deferred?.nextCheckAt, checkAt);
+    assert.equal(deferred?.deferredUntil, checkAt);
+
+    t.mock.timers.tick(40 * 60 * 1000);
+    assert.equal(await scheduler.isDue(2), true);
+
+    // После настоящей проверки снова действует обычный интервал
+    await scheduler.recordCheck('upToDate');
+    assert.equal((storage.updateCheck as { deferredUntil?: number }).deferredUntil, undefined);
+    assert.equal(await scheduler.isDue(2), false);
+  });
+
+  it('runs a deferred forced check even if the last check was recent', async t => {
+    t.mock.timers.enable({ apis: ['Date'], now: 10 * HOUR });
+    await scheduler.recordCheck('upToDate');
+
+    t.mock.timers.tick(60 * 1000);
+    await scheduler.deferUntil(Date.now() + 30 * 60 * 1000, 24, 'rate limit');
+
+    assert.equal(await scheduler.isDue(24), false);
+    t.mock.timers.tick(30 * 60 * 1000);
+    assert.equal(await scheduler.isDue(24), true);
+  });
+});
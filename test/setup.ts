@@ -0,0 +1,4 @@
+// Подключается ко всем тестам через --require (см. скрипт test).
+// Сервисы подробно логируют каждый шаг, а на Node 20 обильный stdout тестового файла
+// может сломать разбор результатов в node --test
+console.log = () => undefined;
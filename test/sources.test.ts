@@ -0,0 +1,185 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installChrome, makeCards, resetIndexedDB, startServer, TestServer } from './helpers';
+import { DatasetNotFoundError, GitHubService } from '../src/github';
+import { DatabaseService } from '../src/database';
+import { GitHubContentsSource, supportsPinning } from '../src/sources';
+import { RateLimitError } from '../src/http';
+import { DataSourceConfig } from '../src/types';
+
+function useSource(dataSource: DataSourceConfig, pinnedVersion: string | null = null): void {
+  installChrome({ settings: { dataSource, pinnedVersion } });
+}
+
+describe('dataset list', () => {
+  let server: TestServer | null = null;
+
+  afterEach(async () => {
+    await server?.close();
+    server = null;
+  });
+
+  it('keeps a single-URL dataset whatever its file name', async () => {
+    server = await startServer((_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json', 'ETag': '"v1"' });
+      response.end('{"cards":[]}');
+    });
+    useSource({ type: 'url', url: `${server.url}/exports/cards.json` });
+
+    const files = await new GitHubService().getDatabasesList();
+
+    assert.deepEqual(files.map(file => [file.name, file.revision]), [['cards.json', '"v1"']]);
+  });
+
+  it('takes dataset names from the manifest and drops only patches and checksums', async () => {
+    server = await startServer((_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify([
+        'cards-2026-01.json',
+        'cards-2026-02.json',
+        'cards-2026-02.json.sha256',
+        'animestars_patch_20260101_000000_to_20260201_000000.json',
+        'readme.txt'
+      ]));
+    });
+    useSource({ type: 'http', manifestUrl: `${server.url}/datasets/manifest.json` });
+
+    const service = new GitHubService();
+    const files = await service.getDatabasesList();
+
+    assert.deepEqual(files.map(file => file.name), ['cards-2026-01.json', 'cards-2026-02.json']);
+    assert.equal(files[1].checksumUrl, `${server.url}/datasets/cards-2026-02.json.sha256`);
+    assert.equal((await service.getLatestDatabase())?.name, 'cards-2026-02.json');
+  });
+
+  it('selects release assets by the configured pattern and dates them by the release', async t => {
+    const publishedAt = '2026-02-01T12:00:00Z';
+    const asset = (name: string) => ({ id: name.length, name, size: 10, browser_download_url: `https://github.com/o/r/releases/download/v2/${name}` });
+    const release = {
+      id: 42,
+      tag_name: 'v2',
+      published_at: publishedAt,
+      assets: [asset('cards-2026-02.json'), asset('cards-2026-02.json.sha256'), asset('animestars_20260201_000000.json'), asset('notes.txt')]
+    };
+    // Адрес GitHub API зашит в источник - подменяем fetch
+    t.mock.method(globalThis, 'fetch', async () => new Response(JSON.stringify(release), { headers: { 'Content-Type': 'application/json' } }));
+    useSource({ type: 'release', owner: 'o', repo: 'r', assetPattern: 'cards-*.json' });
+
+    const service = new GitHubService();
+    const files = await service.getDatabasesList();
+
+    assert.deepEqual(files.map(file => file.name), ['cards-2026-02.json']);
+    assert.equal(files[0].checksumUrl, release.assets[1].browser_download_url);
+
+    // Дата публикации релиза важнее timestamp из файла
+    const info = service.parseDatabaseInfo(files[0], { timestamp: '1700000000' });
+    assert.equal(info.timestamp, String(Date.parse(publishedAt) / 1000));
+    assert.equal(info.releaseId, 42);
+  });
+});
+
+describe('pinned version', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('matches the revision, not just the file name', async () => {
+    server = await startServer((_request, response) => {
+      response.writeHead(200, { 'Content-Type': 'application/json', 'ETag': '"v2"' });
+      response.end('{"cards":[]}');
+    });
+    const url = `${server.url}/cards.json`;
+
+    // Под тем же именем уже другое содержимое - закрепленная ревизия недоступна, а не заменена новой
+    useSource({ type: 'url', url }, 'db_cards.json@"v1"');
+    await assert.rejects(new GitHubService().getTargetDatabase(), DatasetNotFoundError);
+    await assert.rejects(new GitHubService().checkForUpdates(null), DatasetNotFoundError);
+
+    useSource({ type: 'url', url }, 'db_cards.json@"v2"');
+    assert.equal((await new GitHubService().getTargetDatabase())?.revision, '"v2"');
+  });
+
+  it('is supported only by sources that keep previous versions', () => {
+    assert.equal(supportsPinning({ type: 'github', owner: 'o', repo: 'r', path: 'data' }), true);
+    assert.equal(supportsPinning({ type: 'http', manifestUrl: 'https://example.com/manifest.json' }), true);
+    assert.equal(supportsPinning({ type: 'url', url: 'https://example.com/cards.json' }), false);
+    assert.equal(supportsPinning({ type: 'release', owner: 'o', repo: 'r', assetPattern: '*.json' }), false);
+  });
+});
+
+describe('single-URL update', () => {
+  let server: TestServer;
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('records a new revision when the file itself is not modified', async () => {
+    resetIndexedDB();
+    // HEAD отдает другую ревизию (слабый ETag от CDN), а GET по прежнему ETag - 304: содержимое то же
+    let revision = '"v1"';
+    server = await startServer((request, response) => {
+      if (request.method === 'HEAD') {
+        response.writeHead(200, { 'ETag': revision });
+        response.end();
+      } else if (request.headers['if-none-match'] === '"v1"') {
+        response.writeHead(304);
+        response.end();
+      } else {
+        response.writeHead(200, { 'Content-Type': 'application/json', 'ETag': '"v1"' });
+        response.end(JSON.stringify({ cards: makeCards(3) }));
+      }
+    });
+    useSource({ type: 'url', url: `${server.url}/cards.json` });
+    const service = new GitHubService();
+
+    assert.equal((await service.updateDatabase()).success, true);
+    revision = 'W/"v1"';
+    assert.equal(await service.checkForUpdates(await new DatabaseService().getDatabaseInfo()), true);
+
+    const result = await service.updateDatabase();
+
+    assert.equal(result.notModified, true);
+    assert.equal(await service.checkForUpdates(await new DatabaseService().getDatabaseInfo()), false);
+  });
+});
+
+describe('GitHub contents listing', () => {
+  const resetAt = Math.floor(Date.now() / 1000) + 3600;
+  const rateLimited = () => new Response('{"message":"API rate limit exceeded"}', {
+    status: 403,
+    headers: { 'x-ratelimit-limit': '60', 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': String(resetAt) }
+  });
+  const jsDelivrListing = {
+    files: [{ name: '/data/animestars_20260101_000000.json', size: 10, hash: Buffer.alloc(32).toString('base64') }]
+  };
+
+  it('lists through jsDelivr when the GitHub API is rate-limited', async t => {
+    installChrome();
+    // Адреса GitHub API и jsDelivr зашиты в источник - подменяем fetch
+    const fetchMock = t.mock.method(globalThis, 'fetch', async (url: string) =>
+      url.startsWith('https://api.github.com/') ? rateLimited() : Response.json(jsDelivrListing)
+    );
+
+    const files = await new GitHubContentsSource('o', 'r', 'data').listDatasets();
+
+    assert.deepEqual(files.map(file => file.downloadUrl), ['https://cdn.jsdelivr.net/gh/o/r@main/data/animestars_20260101_000000.json']);
+
+    // Пока лимит исчерпан, GitHub API больше не запрашивается
+    await new GitHubContentsSource('o', 'r', 'data').listDatasets();
+    assert.equal(fetchMock.mock.calls.filter(call => String(call.arguments[0]).startsWith('https://api.github.com/')).length, 1);
+  });
+
+  it('reports the rate limit when jsDelivr fails as well', async t => {
+    installChrome();
+    t.mock.method(globalThis, 'fetch', async (url: string) =>
+      url.startsWith('https://api.github.com/') ? rateLimited() : new Response(null, { status: 503 })
+    );
+
+    await assert.rejects(new GitHubContentsSource('o', 'r', 'data').listDatasets(), (error: unknown) =>
+      error instanceof RateLimitError && error.resetAt === resetAt * 1000
+    );
+  });
+});
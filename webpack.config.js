@@ -7,7 +7,8 @@ const CssMinimizerPlugin = require('css-minimizer-webpack-plugin');
 module.exports = {
   entry: {
     content: './src/content.ts',
-    background: './src/background.ts'
+    background: './src/background.ts',
+    popup: './src/popup.ts'
   },
   output: {
     path: path.resolve(__dirname, 'dist'),
@@ -38,7 +39,6 @@ module.exports = {
       patterns: [
         { from: 'src/manifest.json', to: 'manifest.json' },
         { from: 'popup.html', to: 'popup.html' },
-        { from: 'popup.js', to: 'popup.js' },
         { from: 'icons/', to: 'icons/' }
       ]
     })